@@ -14,6 +14,10 @@ const project = new awscdk.AwsCdkTypeScriptApp({
     '@aws-sdk/client-sns',
     'ip-range-check',
     'aws-lambda',
+    '@aws-sdk/client-s3',
+    '@aws-sdk/client-dynamodb',
+    '@aws-sdk/client-sqs',
+    '@aws-sdk/client-timestream-query',
   ],
   // description: undefined,  /* The description is just a string that helps people understand the purpose of the package. */
   // devDeps: [],             /* Build dependencies for this module. */
@@ -21,10 +25,41 @@ const project = new awscdk.AwsCdkTypeScriptApp({
 });
 
 project.gitignore.addPatterns('docs/');
+project.gitignore.addPatterns('.backfill-checkpoint.json');
 
 // remove default workflow files
 project.tryRemoveFile('.github/workflows/build.yml');
 project.tryRemoveFile('.github/workflows/pull-request-lint.yml');
 project.tryRemoveFile('.github/workflows/upgrade.yml');
 
+project.addTask('replay', {
+  description: 'Re-run measure extraction over archived webhook payloads',
+  exec: 'ts-node --project tsconfig.dev.json src/scripts/replay.ts',
+  receiveArgs: true,
+});
+
+project.addTask('redrive', {
+  description: 'Move messages from a dead-letter queue back to their source queue',
+  exec: 'ts-node --project tsconfig.dev.json src/scripts/redrive.ts',
+  receiveArgs: true,
+});
+
+project.addTask('rotate-webhook-secret', {
+  description: 'Generate a new webhook secret and store it as the current secret',
+  exec: 'ts-node --project tsconfig.dev.json src/scripts/rotate-webhook-secret.ts',
+  receiveArgs: true,
+});
+
+project.addTask('reveal-pseudonym', {
+  description: 'Look up the identities behind pseudonymized tokens',
+  exec: 'ts-node --project tsconfig.dev.json src/scripts/reveal-pseudonym.ts',
+  receiveArgs: true,
+});
+
+project.addTask('backfill', {
+  description: 'Backfill historical activity from the GitHub REST API',
+  exec: 'ts-node --project tsconfig.dev.json src/scripts/backfill.ts',
+  receiveArgs: true,
+});
+
 project.synth();
\ No newline at end of file
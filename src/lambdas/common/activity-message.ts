@@ -0,0 +1,146 @@
+import type { MessageAttributeValue } from "@aws-sdk/client-sns";
+
+/**
+ * Version of the message schema published to the GitHub activity SNS topic.
+ * Increment it on incompatible changes, so that consumers can reject messages they do not understand.
+ */
+export const ACTIVITY_MESSAGE_VERSION = 1;
+
+/**
+ * Fields common to every message published to the GitHub activity SNS topic
+ */
+interface ActivityMessageBase {
+  version: typeof ACTIVITY_MESSAGE_VERSION;
+  /**
+   * Value of the X-GitHub-Delivery header
+   */
+  deliveryId: string;
+  action: string;
+  /**
+   * Login of the repository owner
+   */
+  organization: string;
+  /**
+   * Repository name without the owner
+   */
+  repository: string;
+}
+
+/**
+ * Pull request whose statistics should be fetched from the GitHub API
+ */
+export interface PullRequestActivityMessage extends ActivityMessageBase {
+  eventType: "pull_request";
+  number: number;
+}
+
+/**
+ * Completed workflow run whose jobs and steps should be fetched from the GitHub API
+ */
+export interface WorkflowRunActivityMessage extends ActivityMessageBase {
+  eventType: "workflow_run";
+  runId: number;
+  runAttempt: number;
+  workflowName?: string;
+}
+
+/**
+ * Message published to the GitHub activity SNS topic
+ */
+export type ActivityMessage =
+  PullRequestActivityMessage | WorkflowRunActivityMessage;
+
+/**
+ * Thrown when a message does not match the schema
+ */
+export class InvalidActivityMessageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidActivityMessageError";
+  }
+}
+
+/**
+ * SNS message attributes of a message, for filter policies of subscribers
+ * @param message Message
+ * @returns Message attributes
+ */
+export function toMessageAttributes(
+  message: ActivityMessage,
+): Record<string, MessageAttributeValue> {
+  const attribute = (value: string): MessageAttributeValue => ({
+    DataType: "String",
+    StringValue: value,
+  });
+  return {
+    version: {
+      DataType: "Number",
+      StringValue: message.version.toString(),
+    },
+    eventType: attribute(message.eventType),
+    action: attribute(message.action),
+    organization: attribute(message.organization),
+    repository: attribute(message.repository),
+  };
+}
+
+function requireField(
+  value: any,
+  name: string,
+  type: "string" | "number",
+): void {
+  const valid =
+    type === "number"
+      ? Number.isInteger(value) && value > 0
+      : typeof value === "string" && value !== "";
+  if (!valid) {
+    throw new InvalidActivityMessageError(
+      `${name} must be a ${type === "number" ? "positive integer" : "non-empty string"}`,
+    );
+  }
+}
+
+/**
+ * Parse and validate a message published to the GitHub activity SNS topic
+ * @param body Message body
+ * @returns Message
+ * @throws InvalidActivityMessageError if the body is not a message of a supported version and event type
+ */
+export function parseActivityMessage(body: string): ActivityMessage {
+  let message: any;
+  try {
+    message = JSON.parse(body);
+  } catch {
+    throw new InvalidActivityMessageError("Message is not valid JSON");
+  }
+  if (typeof message !== "object" || message === null) {
+    throw new InvalidActivityMessageError("Message is not a JSON object");
+  }
+  if (message.version !== ACTIVITY_MESSAGE_VERSION) {
+    throw new InvalidActivityMessageError(
+      `Unsupported message version: ${message.version}`,
+    );
+  }
+  requireField(message.deliveryId, "deliveryId", "string");
+  requireField(message.action, "action", "string");
+  requireField(message.organization, "organization", "string");
+  requireField(message.repository, "repository", "string");
+
+  switch (message.eventType) {
+    case "pull_request":
+      requireField(message.number, "number", "number");
+      break;
+    case "workflow_run":
+      requireField(message.runId, "runId", "number");
+      requireField(message.runAttempt, "runAttempt", "number");
+      if (message.workflowName !== undefined) {
+        requireField(message.workflowName, "workflowName", "string");
+      }
+      break;
+    default:
+      throw new InvalidActivityMessageError(
+        `Unsupported event type: ${message.eventType}`,
+      );
+  }
+  return message as ActivityMessage;
+}
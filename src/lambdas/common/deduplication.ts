@@ -0,0 +1,64 @@
+import {
+  ConditionalCheckFailedException,
+  DeleteItemCommand,
+  DynamoDBClient,
+  PutItemCommand,
+} from "@aws-sdk/client-dynamodb";
+
+// GitHub allows redelivering webhooks from the past 3 days, so keep processed delivery IDs a bit longer
+const DELIVERY_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+
+const dynamoDBClient = new DynamoDBClient();
+
+/**
+ * Record a delivery ID as processed in the idempotency table
+ * The delivery is claimed before it is archived and enqueued, and released by the webhook worker if its last attempt fails.
+ * @param tableName DynamoDB table name
+ * @param deliveryId GitHub delivery ID (X-GitHub-Delivery)
+ * @returns true if the delivery has not been processed before, false if it is a duplicate
+ */
+export async function claimDelivery(
+  tableName: string,
+  deliveryId: string,
+): Promise<boolean> {
+  const now = Math.floor(Date.now() / 1000);
+  try {
+    await dynamoDBClient.send(
+      new PutItemCommand({
+        TableName: tableName,
+        Item: {
+          delivery_id: { S: deliveryId },
+          received_at: { N: String(now) },
+          expires_at: { N: String(now + DELIVERY_RETENTION_SECONDS) },
+        },
+        ConditionExpression: "attribute_not_exists(delivery_id)",
+      }),
+    );
+    return true;
+  } catch (error) {
+    if (error instanceof ConditionalCheckFailedException) {
+      return false;
+    }
+    console.error("Error recording delivery in DynamoDB:", error);
+    throw error;
+  }
+}
+
+/**
+ * Remove a delivery ID from the idempotency table so that a redelivery is processed again
+ * @param tableName DynamoDB table name
+ * @param deliveryId GitHub delivery ID (X-GitHub-Delivery)
+ */
+export async function releaseDelivery(tableName: string, deliveryId: string) {
+  try {
+    await dynamoDBClient.send(
+      new DeleteItemCommand({
+        TableName: tableName,
+        Key: { delivery_id: { S: deliveryId } },
+      }),
+    );
+  } catch (error) {
+    // The original error is more important than this one
+    console.error("Error releasing delivery in DynamoDB:", error);
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Definitions of the DORA metrics rolled up by the DORA rollup job.
+ * Patterns are case-insensitive glob patterns, where `*` matches any characters and `?` matches a single character.
+ */
+export interface DoraMetricsConfig {
+  /**
+   * Deployment environments that count as production
+   * @default ["production"]
+   */
+  readonly productionEnvironments?: string[];
+  /**
+   * Final deployment states that mark a failed change
+   * @default ["failure", "error"]
+   */
+  readonly failedDeploymentStates?: string[];
+  /**
+   * Issue labels that mark an incident. The time to restore is measured from the creation to the close of such issues.
+   * @default ["incident"]
+   */
+  readonly incidentLabels?: string[];
+  /**
+   * Teams and the full names of the repositories they own, e.g. `{ platform: ["octo-org/infra-*"] }`
+   * @default - metrics are only rolled up per repository
+   */
+  readonly teams?: Record<string, string[]>;
+}
+
+/**
+ * Fill in the defaults of the DORA metrics definitions
+ * @param config Definitions given to the stack
+ * @returns Definitions with every field set
+ */
+export function resolveDoraMetricsConfig(
+  config: DoraMetricsConfig = {},
+): Required<DoraMetricsConfig> {
+  return {
+    productionEnvironments: config.productionEnvironments ?? ["production"],
+    failedDeploymentStates: config.failedDeploymentStates ?? [
+      "failure",
+      "error",
+    ],
+    incidentLabels: config.incidentLabels ?? ["incident"],
+    teams: config.teams ?? {},
+  };
+}
@@ -0,0 +1,196 @@
+import { createSign } from "crypto";
+import { GetParameterCommand, SSMClient } from "@aws-sdk/client-ssm";
+import type { Octokit } from "@octokit/rest";
+
+// Installation tokens are valid for 1 hour. Renew them a little earlier so that a token does not expire during a request.
+const TOKEN_RENEWAL_MARGIN_MILLISECONDS = 5 * 60 * 1000;
+
+const ssmClient = new SSMClient();
+
+const parameterCache = new Map<string, string>();
+const installationIds = new Map<string, number>();
+const installationTokens = new Map<
+  number,
+  { token: string; expiresAt: number }
+>();
+
+/**
+ * Read a SecureString parameter, cached for the lifetime of the Lambda container
+ * @param parameterName SSM parameter name
+ * @returns Parameter value
+ */
+async function getCachedParameter(parameterName: string): Promise<string> {
+  let value = parameterCache.get(parameterName);
+  if (value === undefined) {
+    const response = await ssmClient.send(
+      new GetParameterCommand({ Name: parameterName, WithDecryption: true }),
+    );
+    value = response.Parameter!.Value!;
+    parameterCache.set(parameterName, value);
+  }
+  return value;
+}
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString("base64url");
+}
+
+/**
+ * Create a JSON Web Token authenticating as the GitHub App
+ * @param appId GitHub App ID
+ * @param privateKey PEM-encoded private key of the GitHub App
+ * @returns JWT valid for 9 minutes
+ */
+export function createAppJwt(appId: string, privateKey: string): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+  // Issued 60 seconds in the past to allow for clock drift
+  const payload = base64url(
+    JSON.stringify({ iat: now - 60, exp: now + 9 * 60, iss: appId }),
+  );
+  const signature = createSign("RSA-SHA256")
+    .update(`${header}.${payload}`)
+    .sign(privateKey);
+  return `${header}.${payload}.${base64url(signature)}`;
+}
+
+/**
+ * Find the installation of the GitHub App for a repository, cached for the lifetime of the Lambda container
+ * The installation on the owner is looked up as an organization installation first.
+ * Repositories owned by a user have no organization installation, so the installation on the repository is looked up next.
+ * @param appOctokit Create an Octokit client authenticated as the GitHub App
+ * @param owner Repository owner login
+ * @param repository Repository name
+ * @returns Installation ID, or undefined if the GitHub App is not installed on the repository
+ */
+async function getInstallationId(
+  appOctokit: () => Promise<Octokit>,
+  owner: string,
+  repository: string,
+): Promise<number | undefined> {
+  const ownerKey = owner.toLowerCase();
+  const repositoryKey = `${ownerKey}/${repository.toLowerCase()}`;
+  const cached =
+    installationIds.get(ownerKey) ?? installationIds.get(repositoryKey);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const lookups: [string, () => Promise<{ data: { id: number } }>][] = [
+    [
+      ownerKey,
+      async () => (await appOctokit()).apps.getOrgInstallation({ org: owner }),
+    ],
+    [
+      repositoryKey,
+      async () =>
+        (await appOctokit()).apps.getRepoInstallation({
+          owner,
+          repo: repository,
+        }),
+    ],
+  ];
+  for (const [key, lookup] of lookups) {
+    try {
+      const { data: installation } = await lookup();
+      installationIds.set(key, installation.id);
+      return installation.id;
+    } catch (error: any) {
+      if (error?.status !== 404) {
+        throw error;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get an installation access token of the GitHub App for a repository
+ * @param appId GitHub App ID
+ * @param privateKeyParameterName SSM parameter name of the private key
+ * @param owner Repository owner login
+ * @param repository Repository name
+ * @returns Installation access token, or undefined if the GitHub App is not installed on the repository
+ */
+async function getInstallationToken(
+  appId: string,
+  privateKeyParameterName: string,
+  owner: string,
+  repository: string,
+): Promise<string | undefined> {
+  const { Octokit } = await import("@octokit/rest");
+  const appOctokit = () =>
+    getCachedParameter(privateKeyParameterName).then(
+      (privateKey) => new Octokit({ auth: createAppJwt(appId, privateKey) }),
+    );
+
+  const installationId = await getInstallationId(
+    appOctokit,
+    owner,
+    repository,
+  );
+  if (installationId === undefined) {
+    return undefined;
+  }
+
+  const cached = installationTokens.get(installationId);
+  if (
+    cached &&
+    cached.expiresAt - TOKEN_RENEWAL_MARGIN_MILLISECONDS > Date.now()
+  ) {
+    return cached.token;
+  }
+
+  const { data: accessToken } = await (
+    await appOctokit()
+  ).apps.createInstallationAccessToken({ installation_id: installationId });
+  installationTokens.set(installationId, {
+    token: accessToken.token,
+    expiresAt: Date.parse(accessToken.expires_at),
+  });
+  return accessToken.token;
+}
+
+/**
+ * Get a token to call the GitHub API for a repository
+ * When `GITHUB_APP_ID` and `GITHUB_APP_PRIVATE_KEY_PARAMETER_NAME` are set, an installation access token of the GitHub App is used.
+ * Otherwise, or when the GitHub App is not installed on the repository,
+ * the personal access token in the `GITHUB_TOKEN_PARAMETER_NAME` parameter is used.
+ * @param owner Repository owner login
+ * @param repository Repository name
+ * @returns Token for the `auth` option of Octokit
+ */
+export async function getGitHubToken(
+  owner: string,
+  repository: string,
+): Promise<string> {
+  const appId = process.env.GITHUB_APP_ID;
+  const privateKeyParameterName =
+    process.env.GITHUB_APP_PRIVATE_KEY_PARAMETER_NAME;
+  const tokenParameterName = process.env.GITHUB_TOKEN_PARAMETER_NAME;
+
+  if (appId && privateKeyParameterName) {
+    const token = await getInstallationToken(
+      appId,
+      privateKeyParameterName,
+      owner,
+      repository,
+    );
+    if (token) {
+      return token;
+    }
+    if (!tokenParameterName) {
+      throw new Error(
+        `GitHub App ${appId} is not installed on ${owner}/${repository} and no personal access token is configured`,
+      );
+    }
+    console.warn(
+      `GitHub App ${appId} is not installed on ${owner}/${repository}, using the personal access token`,
+    );
+  }
+
+  if (!tokenParameterName) {
+    throw new Error("No GitHub credentials are configured");
+  }
+  return getCachedParameter(tokenParameterName);
+}
@@ -0,0 +1,177 @@
+import type { Octokit } from "@octokit/rest";
+import { putMetric } from "./metrics";
+
+// Retries of transient server errors
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MILLISECONDS = 1000;
+
+/**
+ * Thrown when the rate limit budget of the GitHub API is too low to continue.
+ * The work should be retried after `retryAt` instead of failing.
+ */
+export class GitHubRateLimitError extends Error {
+  /**
+   * @param message Error message
+   * @param retryAt Time in milliseconds since Unix epoch after which the budget is expected to be available again
+   */
+  constructor(
+    message: string,
+    public readonly retryAt: number,
+  ) {
+    super(message);
+    this.name = "GitHubRateLimitError";
+  }
+}
+
+/**
+ * Options of `createGitHubClient`
+ */
+export interface GitHubClientOptions {
+  /**
+   * Token for the `auth` option of Octokit
+   */
+  auth: string;
+  /**
+   * Requests are deferred once the remaining rate limit falls below this number
+   * @default 100
+   */
+  minRemaining?: number;
+  /**
+   * Longest wait for a rate limit before giving up with `GitHubRateLimitError`.
+   * Scripts can wait for the rate limit to reset, while Lambda functions should defer the work instead.
+   * @default 10 seconds
+   */
+  maxWaitMilliseconds?: number;
+}
+
+// Latest rate limit seen per resource ("core", "graphql", ...), shared by the clients of the Lambda container
+const rateLimits = new Map<string, { remaining: number; reset: number }>();
+
+function sleep(milliseconds: number) {
+  return new Promise((resolve) => setTimeout(resolve, milliseconds));
+}
+
+/**
+ * Exponential backoff with full jitter
+ * @param attempt Attempt number starting from 1
+ * @returns Delay in milliseconds
+ */
+function backoffDelay(attempt: number): number {
+  return Math.random() * BASE_RETRY_DELAY_MILLISECONDS * 2 ** (attempt - 1);
+}
+
+/**
+ * Wait until the given time, or throw `GitHubRateLimitError` if it is too far away
+ * @param retryAt Time in milliseconds since Unix epoch
+ * @param maxWaitMilliseconds Longest acceptable wait
+ * @param reason Description of the rate limit
+ */
+async function waitOrDefer(
+  retryAt: number,
+  maxWaitMilliseconds: number,
+  reason: string,
+) {
+  const wait = retryAt - Date.now();
+  if (wait > maxWaitMilliseconds) {
+    throw new GitHubRateLimitError(reason, retryAt);
+  }
+  if (wait > 0) {
+    console.warn(`${reason}, waiting ${wait} ms`);
+    await sleep(wait);
+  }
+}
+
+/**
+ * Create an Octokit client that honours the rate limits of the GitHub API
+ * * Requests wait, or are deferred with `GitHubRateLimitError`, when the remaining budget is low
+ * * Requests rejected by secondary rate limits are retried after `retry-after`
+ * * Transient 5xx errors are retried with jittered exponential backoff
+ * * The remaining budget is emitted as the `GitHubRateLimitRemaining` metric
+ * @param options Authentication and rate limit thresholds
+ * @returns Octokit client
+ */
+export async function createGitHubClient(
+  options: GitHubClientOptions,
+): Promise<Octokit> {
+  const { Octokit: OctokitClass } = await import("@octokit/rest");
+  const octokit = new OctokitClass({ auth: options.auth });
+  const minRemaining = options.minRemaining ?? 100;
+  const maxWaitMilliseconds = options.maxWaitMilliseconds ?? 10 * 1000;
+
+  octokit.hook.wrap("request", async (request, requestOptions) => {
+    const resource = requestOptions.url.startsWith("/graphql")
+      ? "graphql"
+      : "core";
+    const limit = rateLimits.get(resource);
+    if (limit && limit.remaining < minRemaining && limit.reset > Date.now()) {
+      await waitOrDefer(
+        limit.reset,
+        maxWaitMilliseconds,
+        `GitHub API rate limit budget is low (${limit.remaining} remaining)`,
+      );
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await request(requestOptions);
+        recordRateLimit(response.headers);
+        return response;
+      } catch (error: any) {
+        const status: number | undefined = error?.status;
+        const headers = error?.response?.headers ?? {};
+        recordRateLimit(headers);
+
+        if (
+          status === 429 ||
+          (status === 403 &&
+            (headers["retry-after"] ||
+              headers["x-ratelimit-remaining"] === "0"))
+        ) {
+          if (attempt > MAX_RETRIES) {
+            throw error;
+          }
+          const retryAt = headers["retry-after"]
+            ? Date.now() + Number(headers["retry-after"]) * 1000
+            : Number(headers["x-ratelimit-reset"]) * 1000;
+          await waitOrDefer(
+            retryAt,
+            maxWaitMilliseconds,
+            `GitHub API rate limit exceeded (${requestOptions.method} ${requestOptions.url})`,
+          );
+          continue;
+        }
+
+        if (status !== undefined && status >= 500 && attempt <= MAX_RETRIES) {
+          const delay = backoffDelay(attempt);
+          console.warn(
+            `GitHub API returned ${status}, retrying in ${Math.round(delay)} ms`,
+          );
+          await sleep(delay);
+          continue;
+        }
+        throw error;
+      }
+    }
+  });
+
+  return octokit;
+}
+
+/**
+ * Record the rate limit headers of a response and emit the remaining budget
+ * @param headers Response headers
+ */
+function recordRateLimit(headers: Record<string, any>) {
+  if (headers["x-ratelimit-remaining"] === undefined) {
+    return;
+  }
+  const resource = headers["x-ratelimit-resource"] ?? "core";
+  const remaining = Number(headers["x-ratelimit-remaining"]);
+  rateLimits.set(resource, {
+    remaining,
+    reset: Number(headers["x-ratelimit-reset"]) * 1000,
+  });
+  putMetric("GitHubRateLimitRemaining", remaining, "Count", {
+    Resource: resource,
+  });
+}
@@ -0,0 +1,33 @@
+// SSM parameter holding the comma-separated CIDR ranges GitHub sends webhooks from
+export const HOOK_IP_RANGES_PARAMETER_NAME = "/github/metrics/hook-ip-ranges";
+
+// Hooks ranges published by https://api.github.com/meta, used until the parameter has been synchronized
+export const DEFAULT_HOOK_IP_RANGES = [
+  "192.30.252.0/22",
+  "185.199.108.0/22",
+  "140.82.112.0/20",
+  "143.55.64.0/20",
+  "2a0a:a440::/29",
+  "2606:50c0::/32",
+];
+
+/**
+ * Serialize IP ranges into the parameter value
+ * @param ranges CIDR ranges
+ * @returns Comma-separated ranges, sorted so that equal sets produce equal values
+ */
+export function formatIpRanges(ranges: string[]): string {
+  return [...new Set(ranges)].sort().join(",");
+}
+
+/**
+ * Parse the parameter value into IP ranges
+ * @param value Comma-separated ranges
+ * @returns CIDR ranges
+ */
+export function parseIpRanges(value: string): string[] {
+  return value
+    .split(",")
+    .map((range) => range.trim())
+    .filter((range) => range.length > 0);
+}
@@ -0,0 +1,104 @@
+/**
+ * Allow and deny lists of a filtered attribute.
+ * Entries are case-insensitive glob patterns, where `*` matches any characters and `?` matches a single character.
+ */
+export interface IngestionFilterRule {
+  /**
+   * Only deliveries matching one of these patterns are ingested
+   * @default - every value is allowed
+   */
+  readonly allow?: string[];
+  /**
+   * Deliveries matching one of these patterns are not ingested, even if they are allowed
+   * @default - no value is denied
+   */
+  readonly deny?: string[];
+}
+
+/**
+ * Filter applied to webhook deliveries before they are ingested.
+ * Deliveries without the filtered attribute (e.g. events without a repository) are not filtered by its rule.
+ */
+export interface IngestionFilter {
+  /**
+   * Rule on the event type, e.g. `star`
+   */
+  readonly eventTypes?: IngestionFilterRule;
+  /**
+   * Rule on the event type and action, e.g. `pull_request.synchronize` or `*.labeled`
+   */
+  readonly actions?: IngestionFilterRule;
+  /**
+   * Rule on the full name of the repository, e.g. `octo-org/*`
+   */
+  readonly repositories?: IngestionFilterRule;
+  /**
+   * Rule on the type of the sender, e.g. `Bot`
+   */
+  readonly senderTypes?: IngestionFilterRule;
+}
+
+/**
+ * Convert a glob pattern to a regular expression
+ * @param pattern Glob pattern
+ * @returns Case-insensitive regular expression matching the whole value
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((char) => {
+      if (char === "*") {
+        return ".*";
+      }
+      if (char === "?") {
+        return ".";
+      }
+      return char.replace(/[.+^${}()|[\]\\/]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+}
+
+/**
+ * Check whether a value passes a rule
+ * @param rule Allow and deny lists
+ * @param value Value of the filtered attribute
+ * @returns true if the value is allowed and not denied
+ */
+function passesRule(
+  rule: IngestionFilterRule | undefined,
+  value: string | undefined,
+): boolean {
+  if (!rule || value === undefined) {
+    return true;
+  }
+  const matches = (patterns: string[]) =>
+    patterns.some((pattern) => globToRegExp(pattern).test(value));
+  if (rule.allow && rule.allow.length > 0 && !matches(rule.allow)) {
+    return false;
+  }
+  return !(rule.deny && matches(rule.deny));
+}
+
+/**
+ * Evaluate the ingestion filter for a delivery
+ * @param filter Ingestion filter
+ * @param eventType GitHub event type
+ * @param payload Parsed webhook payload
+ * @returns Name of the rule that filtered out the delivery, or undefined if the delivery is ingested
+ */
+export function evaluateIngestionFilter(
+  filter: IngestionFilter,
+  eventType: string,
+  payload: any,
+): keyof IngestionFilter | undefined {
+  const values: Record<keyof IngestionFilter, string | undefined> = {
+    eventTypes: eventType,
+    actions: payload?.action ? `${eventType}.${payload.action}` : undefined,
+    repositories: payload?.repository?.full_name,
+    senderTypes: payload?.sender?.type,
+  };
+  return (Object.keys(values) as (keyof IngestionFilter)[]).find(
+    (name) => !passesRule(filter[name], values[name]),
+  );
+}
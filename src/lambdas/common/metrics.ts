@@ -0,0 +1,37 @@
+// CloudWatch namespace of the metrics emitted by the Lambda functions
+const METRICS_NAMESPACE = "GitHubActivityMetrics";
+
+/**
+ * Emit a metric using the CloudWatch embedded metric format
+ * The metric is extracted by CloudWatch from the log line, so no API call is needed.
+ * @param name Metric name
+ * @param value Metric value
+ * @param unit Metric unit
+ * @param dimensions Dimensions of the metric
+ * @param properties Additional properties written to the log line, not used as dimensions
+ */
+export function putMetric(
+  name: string,
+  value: number,
+  unit: "Count" | "None",
+  dimensions: Record<string, string> = {},
+  properties: Record<string, unknown> = {},
+) {
+  console.log(
+    JSON.stringify({
+      _aws: {
+        Timestamp: Date.now(),
+        CloudWatchMetrics: [
+          {
+            Namespace: METRICS_NAMESPACE,
+            Dimensions: [Object.keys(dimensions)],
+            Metrics: [{ Name: name, Unit: unit }],
+          },
+        ],
+      },
+      ...properties,
+      ...dimensions,
+      [name]: value,
+    }),
+  );
+}
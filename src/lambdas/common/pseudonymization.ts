@@ -0,0 +1,186 @@
+import { createHmac } from "crypto";
+import {
+  BatchWriteItemCommand,
+  BatchWriteItemCommandInput,
+  BatchWriteItemCommandOutput,
+  DynamoDBClient,
+} from "@aws-sdk/client-dynamodb";
+import { GetParameterCommand, SSMClient } from "@aws-sdk/client-ssm";
+import type { _Record } from "@aws-sdk/client-timestream-write";
+
+// BatchWriteItem accepts at most 25 items per call
+const DYNAMODB_MAX_ITEMS_PER_BATCH_WRITE = 25;
+
+// Columns and dimensions holding GitHub logins or user IDs by naming convention
+const IDENTITY_NAME_PATTERN =
+  /(_login|_user_id|_actor_id|_creator_id|_author_id|_assignee_id|_assignees_\d+_id)$/;
+
+const ssmClient = new SSMClient();
+const dynamoDBClient = new DynamoDBClient();
+
+/**
+ * Replaces GitHub logins and user IDs with keyed HMAC tokens.
+ * The same key always produces the same token, so tokens can be joined across tables and Lambda functions.
+ */
+export interface Pseudonymizer {
+  /**
+   * Pseudonymize a login. Logins are case-insensitive, so they are lower-cased first.
+   * @param login GitHub login
+   * @returns Hexadecimal token
+   */
+  login(login: string): string;
+  /**
+   * Pseudonymize a user ID. The token is a positive integer so that it fits in BIGINT columns.
+   * @param id GitHub user ID
+   * @returns Decimal token
+   */
+  id(id: number | string): string;
+  /**
+   * Tokens created since the last call, with the original values for the reverse-lookup table
+   */
+  takeCreatedTokens(): Map<string, { kind: "login" | "id"; value: string }>;
+}
+
+/**
+ * Check whether a column or dimension holds a GitHub login or user ID by its name
+ * @param name Column or dimension name
+ * @returns true for names ending with `_login`, `_user_id`, `_actor_id`, `_creator_id`, `_author_id`, `_assignee_id` or `_assignees_<n>_id`
+ */
+export function isIdentityName(name: string): boolean {
+  return IDENTITY_NAME_PATTERN.test(name);
+}
+
+/**
+ * Create a pseudonymizer
+ * @param key HMAC key
+ * @returns Pseudonymizer
+ */
+export function createPseudonymizer(key: string): Pseudonymizer {
+  let created = new Map<string, { kind: "login" | "id"; value: string }>();
+  const digest = (kind: string, value: string) =>
+    createHmac("sha256", key).update(`${kind}:${value}`).digest();
+
+  return {
+    login(login) {
+      const value = login.toLowerCase();
+      const token = digest("login", value).toString("hex").slice(0, 32);
+      created.set(token, { kind: "login", value });
+      return token;
+    },
+    id(id) {
+      const value = String(id);
+      // 48 bits stay within the safe integer range of JavaScript
+      const token = digest("id", value).readUIntBE(0, 6).toString();
+      created.set(token, { kind: "id", value });
+      return token;
+    },
+    takeCreatedTokens() {
+      const tokens = created;
+      created = new Map();
+      return tokens;
+    },
+  };
+}
+
+/**
+ * Replace the values of dimensions and measures named like identities with tokens
+ * BIGINT measures and names ending with `_id` are pseudonymized as user IDs, the others as logins.
+ * @param record Timestream record, modified in place
+ * @param pseudonymizer Pseudonymizer
+ */
+export function pseudonymizeRecord(
+  record: _Record,
+  pseudonymizer: Pseudonymizer,
+) {
+  const pseudonymize = (
+    name: string | undefined,
+    value: string | undefined,
+    type?: string,
+  ) =>
+    name && value !== undefined && isIdentityName(name)
+      ? type === "BIGINT" || name.endsWith("_id")
+        ? pseudonymizer.id(value)
+        : pseudonymizer.login(value)
+      : value;
+
+  for (const dimension of record.Dimensions ?? []) {
+    dimension.Value = pseudonymize(dimension.Name, dimension.Value);
+  }
+  for (const measureValue of record.MeasureValues ?? []) {
+    measureValue.Value = pseudonymize(
+      measureValue.Name,
+      measureValue.Value,
+      measureValue.Type,
+    );
+  }
+  // The single measure of a record is named by its measure name
+  if (record.MeasureValue !== undefined) {
+    record.MeasureValue = pseudonymize(
+      record.MeasureName,
+      record.MeasureValue,
+      record.MeasureValueType,
+    );
+  }
+}
+
+let cachedPseudonymizer: Pseudonymizer | undefined;
+
+/**
+ * Load the pseudonymizer with the key in SSM Parameter Store
+ * Pseudonymization is enabled by setting the `PSEUDONYMIZATION_KEY_PARAMETER_NAME` environment variable.
+ * @returns The pseudonymizer, or undefined if pseudonymization is disabled
+ */
+export async function loadPseudonymizer(): Promise<Pseudonymizer | undefined> {
+  const parameterName = process.env.PSEUDONYMIZATION_KEY_PARAMETER_NAME;
+  if (!parameterName) {
+    return undefined;
+  }
+  if (!cachedPseudonymizer) {
+    const response = await ssmClient.send(
+      new GetParameterCommand({ Name: parameterName, WithDecryption: true }),
+    );
+    cachedPseudonymizer = createPseudonymizer(response.Parameter!.Value!);
+  }
+  return cachedPseudonymizer;
+}
+
+// Tokens already stored by this Lambda container
+const savedTokens = new Set<string>();
+
+/**
+ * Store the tokens created by the pseudonymizer in the reverse-lookup table
+ * @param tableName DynamoDB table name, or undefined to skip storing
+ * @param pseudonymizer Pseudonymizer
+ */
+export async function savePseudonyms(
+  tableName: string | undefined,
+  pseudonymizer: Pseudonymizer,
+) {
+  const created = pseudonymizer.takeCreatedTokens();
+  if (!tableName) {
+    return;
+  }
+  const items = [...created].filter(([token]) => !savedTokens.has(token));
+  for (let i = 0; i < items.length; i += DYNAMODB_MAX_ITEMS_PER_BATCH_WRITE) {
+    const batch = items.slice(i, i + DYNAMODB_MAX_ITEMS_PER_BATCH_WRITE);
+    let requestItems: BatchWriteItemCommandInput["RequestItems"] = {
+      [tableName]: batch.map(([token, { kind, value }]) => ({
+        PutRequest: {
+          Item: {
+            token: { S: token },
+            kind: { S: kind },
+            value: { S: value },
+          },
+        },
+      })),
+    };
+    // Retry items DynamoDB could not process because of throttling
+    while (requestItems && Object.keys(requestItems).length > 0) {
+      const response: BatchWriteItemCommandOutput = await dynamoDBClient.send(
+        new BatchWriteItemCommand({ RequestItems: requestItems }),
+      );
+      requestItems = response.UnprocessedItems;
+    }
+    batch.forEach(([token]) => savedTokens.add(token));
+  }
+}
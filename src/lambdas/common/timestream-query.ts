@@ -0,0 +1,48 @@
+import {
+  QueryCommand,
+  TimestreamQueryClient,
+} from "@aws-sdk/client-timestream-query";
+
+const timestreamQueryClient = new TimestreamQueryClient();
+
+/**
+ * Run a Timestream query and return its rows as objects keyed by column name
+ * A table without records of an event has none of its columns, which Timestream reports as a validation error.
+ * @param queryString Query
+ * @returns Rows, empty if a queried column does not exist yet
+ */
+export async function queryTimestream(
+  queryString: string,
+): Promise<Record<string, string | undefined>[]> {
+  const rows: Record<string, string | undefined>[] = [];
+  let nextToken: string | undefined;
+  try {
+    do {
+      const response = await timestreamQueryClient.send(
+        new QueryCommand({ QueryString: queryString, NextToken: nextToken }),
+      );
+      const columns = (response.ColumnInfo ?? []).map((column) => column.Name!);
+      for (const row of response.Rows ?? []) {
+        rows.push(
+          Object.fromEntries(
+            (row.Data ?? []).map((datum, i) => [
+              columns[i],
+              datum.NullValue ? undefined : datum.ScalarValue,
+            ]),
+          ),
+        );
+      }
+      nextToken = response.NextToken;
+    } while (nextToken);
+  } catch (error: any) {
+    if (
+      error?.name === "ValidationException" &&
+      /does not exist/i.test(error.message)
+    ) {
+      console.warn("Skipping a query on missing columns:", error.message);
+      return [];
+    }
+    throw error;
+  }
+  return rows;
+}
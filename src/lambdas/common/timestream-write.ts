@@ -0,0 +1,63 @@
+import {
+  RejectedRecordsException,
+  TimestreamWriteClient,
+  WriteRecordsCommand,
+  WriteRecordsCommandOutput,
+  _Record,
+} from "@aws-sdk/client-timestream-write";
+
+// Maximum number of records Timestream accepts in a single WriteRecords call
+const TIMESTREAM_MAX_RECORDS_PER_WRITE = 100;
+
+const timestreamWriteClient = new TimestreamWriteClient();
+
+/**
+ * Write records to a Timestream table in batches within the limit of WriteRecords
+ * Rejected records, e.g. older than the magnetic store retention or with a lower version than an existing record,
+ * are rejected again on retry. The other records of their batch have been written, so rejected records are only logged.
+ * @param databaseName Timestream database name
+ * @param tableName Timestream table name
+ * @param records Records to write
+ * @returns Results of the WriteRecords calls
+ */
+export async function writeTimestreamRecords(
+  databaseName: string,
+  tableName: string,
+  records: _Record[],
+): Promise<WriteRecordsCommandOutput[]> {
+  try {
+    const results = [];
+    for (let i = 0; i < records.length; i += TIMESTREAM_MAX_RECORDS_PER_WRITE) {
+      const batch = records.slice(i, i + TIMESTREAM_MAX_RECORDS_PER_WRITE);
+      try {
+        results.push(
+          await timestreamWriteClient.send(
+            new WriteRecordsCommand({
+              DatabaseName: databaseName,
+              TableName: tableName,
+              Records: batch,
+            }),
+          ),
+        );
+      } catch (error) {
+        if (error instanceof RejectedRecordsException) {
+          console.warn(
+            "Timestream rejected records:",
+            JSON.stringify(
+              error.RejectedRecords?.map((rejected) => ({
+                record: batch[rejected.RecordIndex!],
+                reason: rejected.Reason,
+              })),
+            ),
+          );
+          continue;
+        }
+        throw error;
+      }
+    }
+    return results;
+  } catch (error) {
+    console.error(`Error writing records to Timestream table ${tableName}:`, error);
+    throw error;
+  }
+}
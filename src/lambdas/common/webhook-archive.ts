@@ -0,0 +1,179 @@
+import { gunzipSync, gzipSync } from "zlib";
+import {
+  GetObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from "@aws-sdk/client-s3";
+
+const s3Client = new S3Client();
+
+/**
+ * Key prefix of archived webhook deliveries in the archive bucket
+ */
+export const ARCHIVE_KEY_PREFIX = "webhooks/";
+
+/**
+ * A verified webhook delivery as stored in the archive bucket
+ */
+export interface ArchivedDelivery {
+  /**
+   * Value of the X-GitHub-Delivery header
+   */
+  deliveryId: string;
+  /**
+   * Value of the X-GitHub-Event header
+   */
+  eventType: string;
+  /**
+   * Time the delivery was received (ISO 8601)
+   */
+  receivedAt: string;
+  /**
+   * Parsed webhook payload
+   */
+  payload: any;
+}
+
+/**
+ * Build the object key of an archived delivery.
+ * Keys are partitioned by event type and date so that they can be listed (or queried with Athena) per partition:
+ * `webhooks/event_type=<event>/year=<YYYY>/month=<MM>/day=<DD>/<delivery id>.json.gz`
+ *
+ * @param eventType GitHub event type
+ * @param deliveryId GitHub delivery ID
+ * @param receivedAt Time the delivery was received
+ * @returns Object key
+ */
+export function archiveKey(
+  eventType: string,
+  deliveryId: string,
+  receivedAt: Date,
+): string {
+  return `${archivePartitionPrefix(eventType, receivedAt)}${deliveryId}.json.gz`;
+}
+
+/**
+ * Build the key prefix of the partition of an event type and a day (UTC)
+ *
+ * @param eventType GitHub event type
+ * @param date Any time in the day
+ * @returns Key prefix ending with a slash
+ */
+export function archivePartitionPrefix(eventType: string, date: Date): string {
+  const year = date.getUTCFullYear();
+  const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(date.getUTCDate()).padStart(2, "0");
+  return `${ARCHIVE_KEY_PREFIX}event_type=${eventType}/year=${year}/month=${month}/day=${day}/`;
+}
+
+/**
+ * Store a verified delivery in the archive bucket as compressed JSON
+ *
+ * @param bucketName Archive bucket name
+ * @param delivery Delivery to archive
+ * @returns Object key of the archived delivery
+ */
+export async function putArchivedDelivery(
+  bucketName: string,
+  delivery: ArchivedDelivery,
+): Promise<string> {
+  const key = archiveKey(
+    delivery.eventType,
+    delivery.deliveryId,
+    new Date(delivery.receivedAt),
+  );
+
+  try {
+    await s3Client.send(
+      new PutObjectCommand({
+        Bucket: bucketName,
+        Key: key,
+        Body: gzipSync(JSON.stringify(delivery)),
+        ContentType: "application/json",
+        ContentEncoding: "gzip",
+      }),
+    );
+    return key;
+  } catch (error) {
+    console.error("Error archiving webhook delivery to S3:", error);
+    throw error;
+  }
+}
+
+/**
+ * Read an archived delivery from the archive bucket
+ *
+ * @param bucketName Archive bucket name
+ * @param key Object key of the archived delivery
+ * @returns Archived delivery
+ */
+export async function getArchivedDelivery(
+  bucketName: string,
+  key: string,
+): Promise<ArchivedDelivery> {
+  const response = await s3Client.send(
+    new GetObjectCommand({ Bucket: bucketName, Key: key }),
+  );
+  const body = await response.Body!.transformToByteArray();
+  return JSON.parse(gunzipSync(body).toString("utf8"));
+}
+
+/**
+ * List the object keys of archived deliveries under a key prefix
+ *
+ * @param bucketName Archive bucket name
+ * @param prefix Key prefix, e.g. the result of `archivePartitionPrefix`
+ * @returns Object keys
+ */
+export async function listArchivedDeliveryKeys(
+  bucketName: string,
+  prefix: string,
+): Promise<string[]> {
+  const keys: string[] = [];
+  let continuationToken: string | undefined;
+  do {
+    const response = await s3Client.send(
+      new ListObjectsV2Command({
+        Bucket: bucketName,
+        Prefix: prefix,
+        ContinuationToken: continuationToken,
+      }),
+    );
+    (response.Contents ?? []).forEach((object) => keys.push(object.Key!));
+    continuationToken = response.NextContinuationToken;
+  } while (continuationToken);
+  return keys;
+}
+
+/**
+ * List the event types that have archived deliveries
+ *
+ * @param bucketName Archive bucket name
+ * @returns Event types
+ */
+export async function listArchivedEventTypes(
+  bucketName: string,
+): Promise<string[]> {
+  const eventTypes: string[] = [];
+  let continuationToken: string | undefined;
+  do {
+    const response = await s3Client.send(
+      new ListObjectsV2Command({
+        Bucket: bucketName,
+        Prefix: `${ARCHIVE_KEY_PREFIX}event_type=`,
+        Delimiter: "/",
+        ContinuationToken: continuationToken,
+      }),
+    );
+    (response.CommonPrefixes ?? []).forEach((commonPrefix) =>
+      eventTypes.push(
+        commonPrefix
+          .Prefix!.slice(`${ARCHIVE_KEY_PREFIX}event_type=`.length)
+          .replace(/\/$/, ""),
+      ),
+    );
+    continuationToken = response.NextContinuationToken;
+  } while (continuationToken);
+  return eventTypes;
+}
@@ -0,0 +1,22 @@
+/**
+ * Message sent from the webhook handler to the webhook worker through SQS.
+ * The payload itself is read from the archive, since webhook payloads can exceed the SQS message size limit.
+ */
+export interface WebhookQueueMessage {
+  /**
+   * Value of the X-GitHub-Delivery header
+   */
+  deliveryId: string;
+  /**
+   * Value of the X-GitHub-Event header
+   */
+  eventType: string;
+  /**
+   * Time the delivery was received (ISO 8601)
+   */
+  receivedAt: string;
+  /**
+   * Object key of the archived delivery
+   */
+  archiveKey: string;
+}
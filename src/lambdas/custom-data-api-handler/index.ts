@@ -3,6 +3,11 @@ import {
   WriteRecordsCommand,
 } from "@aws-sdk/client-timestream-write";
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from "aws-lambda";
+import {
+  loadPseudonymizer,
+  pseudonymizeRecord,
+  savePseudonyms,
+} from "../common/pseudonymization";
 
 const timestreamClient = new TimestreamWriteClient();
 
@@ -42,6 +47,10 @@ export const handler = async (
           },
         };
       }
+      const pseudonymizer = await loadPseudonymizer();
+      if (pseudonymizer) {
+        pseudonymizeRecord(jsonData, pseudonymizer);
+      }
       const time = "Time" in jsonData ? jsonData.Time : Date.now().toString();
 
       const records = [
@@ -72,6 +81,9 @@ export const handler = async (
 
       const result = await timestreamClient.send(command);
       console.log("Timestream write result:", result);
+      if (pseudonymizer) {
+        await savePseudonyms(process.env.PSEUDONYM_TABLE_NAME, pseudonymizer);
+      }
       // Return fixed successful response
       return {
         statusCode: 200,
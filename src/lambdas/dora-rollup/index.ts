@@ -0,0 +1,225 @@
+import {
+  MeasureValue,
+  MeasureValueType,
+  _Record,
+} from "@aws-sdk/client-timestream-write";
+import {
+  ClosedIssueRow,
+  CommitRow,
+  DeploymentRow,
+  DoraRollup,
+  rollupDoraMetrics,
+} from "./rollup";
+import {
+  DoraMetricsConfig,
+  resolveDoraMetricsConfig,
+} from "../common/dora-config";
+import { queryTimestream } from "../common/timestream-query";
+import { writeTimestreamRecords } from "../common/timestream-write";
+
+const DAY_MILLISECONDS = 24 * 60 * 60 * 1000;
+
+// Commits pushed up to this long before a deployment are matched to it
+const LEAD_TIME_LOOKBACK_MILLISECONDS = 30 * DAY_MILLISECONDS;
+
+const config = resolveDoraMetricsConfig(
+  JSON.parse(process.env.DORA_CONFIG || "{}") as DoraMetricsConfig,
+);
+
+/**
+ * Period to roll up
+ */
+interface RollupPeriod {
+  granularity: "daily" | "weekly";
+  /**
+   * Start of the period in milliseconds since Unix epoch, inclusive
+   */
+  start: number;
+  /**
+   * End of the period in milliseconds since Unix epoch, exclusive
+   */
+  end: number;
+}
+
+/**
+ * Query the deployments, commits and closed issues of a period from the webhook events table
+ * @param table Quoted database and table name
+ * @param period Period to roll up
+ * @returns Rows of the period
+ */
+async function queryRows(table: string, period: RollupPeriod) {
+  const timeRange = (alias: string, start: number) =>
+    `${alias}time >= from_milliseconds(${start}) AND ${alias}time < from_milliseconds(${period.end})`;
+
+  const deployments: DeploymentRow[] = (
+    await queryTimestream(`
+      SELECT
+        repository_full_name AS repository,
+        deploy_st_deploy_environment AS environment,
+        deploy_st_deploy_sha AS sha,
+        max_by(deploy_st_state, time) AS state,
+        to_milliseconds(max(time)) AS status_at
+      FROM ${table}
+      WHERE measure_name = 'deployment_status' AND ${timeRange("", period.start)}
+      GROUP BY repository_full_name, deploy_st_deploy_id, deploy_st_deploy_environment, deploy_st_deploy_sha
+    `)
+  )
+    .filter((row) => row.repository && row.environment && row.sha && row.state)
+    .map((row) => ({
+      repository: row.repository!,
+      environment: row.environment!,
+      sha: row.sha!,
+      state: row.state!,
+      statusAt: Number(row.status_at),
+    }));
+
+  // Only commit SHAs are inlined into the query
+  const deployedShas = [
+    ...new Set(
+      deployments
+        .map((deployment) => deployment.sha)
+        .filter((sha) => /^[0-9a-f]{40}$/.test(sha)),
+    ),
+  ];
+  const commits: CommitRow[] =
+    deployedShas.length === 0
+      ? []
+      : (
+        await queryTimestream(`
+            SELECT
+              p.repository_full_name AS repository,
+              p.push_after AS sha,
+              to_milliseconds(c.push_commit_timestamp) AS committed_at
+            FROM ${table} p
+            JOIN ${table} c ON p.delivery_id = c.delivery_id
+            WHERE p.measure_name = 'push' AND c.measure_name = 'push_commit'
+              AND ${timeRange("p.", period.start - LEAD_TIME_LOOKBACK_MILLISECONDS)}
+              AND ${timeRange("c.", period.start - LEAD_TIME_LOOKBACK_MILLISECONDS)}
+              AND p.push_after IN (${deployedShas.map((sha) => `'${sha}'`).join(", ")})
+          `)
+      )
+        .filter((row) => row.repository && row.sha && row.committed_at)
+        .map((row) => ({
+          repository: row.repository!,
+          sha: row.sha!,
+          committedAt: Number(row.committed_at),
+        }));
+
+  // The issue extractor stores the first 5 labels of an issue
+  const closedIssues: ClosedIssueRow[] = (
+    await queryTimestream(`
+      SELECT
+        repository_full_name AS repository,
+        to_milliseconds(issues_issue_created_at) AS created_at,
+        to_milliseconds(issues_issue_closed_at) AS closed_at,
+        issues_issue_labels_0_name AS label_0,
+        issues_issue_labels_1_name AS label_1,
+        issues_issue_labels_2_name AS label_2,
+        issues_issue_labels_3_name AS label_3,
+        issues_issue_labels_4_name AS label_4
+      FROM ${table}
+      WHERE measure_name = 'issue' AND issues_action = 'closed' AND ${timeRange("", period.start)}
+    `)
+  )
+    .filter((row) => row.repository && row.created_at && row.closed_at)
+    .map((row) => ({
+      repository: row.repository!,
+      labels: [0, 1, 2, 3, 4]
+        .map((i) => row[`label_${i}`])
+        .filter((label): label is string => label !== undefined),
+      createdAt: Number(row.created_at),
+      closedAt: Number(row.closed_at),
+    }));
+
+  return { deployments, commits, closedIssues };
+}
+
+/**
+ * Write rolled up metrics to the DORA metrics table
+ * Records are written at the start of the period, with a version that lets a rerun overwrite them.
+ * @param period Rolled up period
+ * @param rollups Metrics of the period
+ */
+async function writeRollups(period: RollupPeriod, rollups: DoraRollup[]) {
+  const version = Date.now();
+  const double = (name: string, value: number | undefined): MeasureValue[] =>
+    value === undefined
+      ? []
+      : [
+        {
+          Name: name,
+          Value: value.toString(),
+          Type: MeasureValueType.DOUBLE,
+        },
+      ];
+  const bigint = (name: string, value: number): MeasureValue => ({
+    Name: name,
+    Value: value.toString(),
+    Type: MeasureValueType.BIGINT,
+  });
+
+  const records: _Record[] = rollups.map((rollup) => ({
+    Dimensions: [
+      { Name: "granularity", Value: period.granularity },
+      { Name: "scope", Value: rollup.scope },
+      { Name: "scope_name", Value: rollup.name },
+    ],
+    MeasureName: "dora",
+    MeasureValueType: MeasureValueType.MULTI,
+    MeasureValues: [
+      bigint("deployments", rollup.deployments),
+      ...double("deployment_frequency", rollup.deploymentFrequency),
+      ...double("lead_time_seconds", rollup.leadTimeSeconds),
+      bigint("failed_deployments", rollup.failedDeployments),
+      ...double("change_failure_rate", rollup.changeFailureRate),
+      bigint("incidents", rollup.incidents),
+      ...double("time_to_restore_seconds", rollup.timeToRestoreSeconds),
+    ],
+    Time: period.start.toString(),
+    Version: version,
+  }));
+
+  await writeTimestreamRecords(
+    process.env.TIMESTREAM_DATABASE_NAME!,
+    process.env.DORA_METRICS_TABLE_NAME!,
+    records,
+  );
+}
+
+/**
+ * Lambda function called daily after midnight UTC
+ * Rolls up the DORA metrics of the previous day, and on Mondays those of the previous week.
+ * Invoke it with `{ "date": "2025-05-05" }` to roll up the periods ending on that date again.
+ */
+export const handler = async (event: { date?: string } = {}) => {
+  const now = event.date ? Date.parse(event.date) : Date.now();
+  if (Number.isNaN(now)) {
+    throw new Error(`Invalid date: ${event.date}`);
+  }
+  const today = now - (now % DAY_MILLISECONDS);
+  const periods: RollupPeriod[] = [
+    { granularity: "daily", start: today - DAY_MILLISECONDS, end: today },
+  ];
+  if (new Date(today).getUTCDay() === 1) {
+    periods.push({
+      granularity: "weekly",
+      start: today - 7 * DAY_MILLISECONDS,
+      end: today,
+    });
+  }
+
+  const table = `"${process.env.TIMESTREAM_DATABASE_NAME}"."${process.env.TIMESTREAM_TABLE_NAME}"`;
+  for (const period of periods) {
+    const rows = await queryRows(table, period);
+    const rollups = rollupDoraMetrics(
+      rows,
+      config,
+      (period.end - period.start) / DAY_MILLISECONDS,
+    );
+    await writeRollups(period, rollups);
+    console.log(
+      `Rolled up ${period.granularity} DORA metrics of ${new Date(period.start).toISOString()}:`,
+      JSON.stringify(rollups),
+    );
+  }
+};
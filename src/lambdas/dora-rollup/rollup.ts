@@ -0,0 +1,229 @@
+import type { DoraMetricsConfig } from "../common/dora-config";
+import { globToRegExp } from "../common/ingestion-filter";
+
+/**
+ * Deployment with its latest status in the rolled up period
+ */
+export interface DeploymentRow {
+  repository: string;
+  environment: string;
+  sha: string;
+  state: string;
+  /**
+   * Time of the latest status in milliseconds since Unix epoch
+   */
+  statusAt: number;
+}
+
+/**
+ * Commit pushed to a repository
+ */
+export interface CommitRow {
+  repository: string;
+  /**
+   * Head commit of the push containing the commit
+   */
+  sha: string;
+  /**
+   * Commit timestamp in milliseconds since Unix epoch
+   */
+  committedAt: number;
+}
+
+/**
+ * Issue closed in the rolled up period
+ */
+export interface ClosedIssueRow {
+  repository: string;
+  labels: string[];
+  /**
+   * Creation time in milliseconds since Unix epoch
+   */
+  createdAt: number;
+  /**
+   * Close time in milliseconds since Unix epoch
+   */
+  closedAt: number;
+}
+
+/**
+ * DORA metrics of a repository or team over a period
+ */
+export interface DoraRollup {
+  scope: "repository" | "team";
+  name: string;
+  deployments: number;
+  /**
+   * Successful production deployments per day
+   */
+  deploymentFrequency: number;
+  /**
+   * Average time from commit to successful production deployment, undefined without deployed commits
+   */
+  leadTimeSeconds?: number;
+  failedDeployments: number;
+  /**
+   * Ratio of failed production deployments, undefined without production deployments
+   */
+  changeFailureRate?: number;
+  incidents: number;
+  /**
+   * Average time from the creation to the close of incidents, undefined without closed incidents
+   */
+  timeToRestoreSeconds?: number;
+}
+
+/**
+ * Sums of a repository or team, from which the rolled up metrics are computed
+ */
+interface DoraTotals {
+  successfulDeployments: number;
+  failedDeployments: number;
+  leadTimeMillisecondsSum: number;
+  deployedCommits: number;
+  incidents: number;
+  restoreMillisecondsSum: number;
+}
+
+function matcher(patterns: string[]): (value: string) => boolean {
+  const regExps = patterns.map(globToRegExp);
+  return (value) => regExps.some((regExp) => regExp.test(value));
+}
+
+function emptyTotals(): DoraTotals {
+  return {
+    successfulDeployments: 0,
+    failedDeployments: 0,
+    leadTimeMillisecondsSum: 0,
+    deployedCommits: 0,
+    incidents: 0,
+    restoreMillisecondsSum: 0,
+  };
+}
+
+function toRollup(
+  scope: DoraRollup["scope"],
+  name: string,
+  totals: DoraTotals,
+  periodDays: number,
+): DoraRollup {
+  const productionDeployments =
+    totals.successfulDeployments + totals.failedDeployments;
+  return {
+    scope,
+    name,
+    deployments: totals.successfulDeployments,
+    deploymentFrequency: totals.successfulDeployments / periodDays,
+    leadTimeSeconds:
+      totals.deployedCommits > 0
+        ? totals.leadTimeMillisecondsSum / totals.deployedCommits / 1000
+        : undefined,
+    failedDeployments: totals.failedDeployments,
+    changeFailureRate:
+      productionDeployments > 0
+        ? totals.failedDeployments / productionDeployments
+        : undefined,
+    incidents: totals.incidents,
+    timeToRestoreSeconds:
+      totals.incidents > 0
+        ? totals.restoreMillisecondsSum / totals.incidents / 1000
+        : undefined,
+  };
+}
+
+/**
+ * Roll up DORA metrics per repository and per team
+ * * Deployment frequency counts successful deployments to production environments
+ * * Lead time for changes averages the time from each commit to the successful production deployment of its push
+ * * Change failure rate is the ratio of production deployments whose latest state is a failed state
+ * * Time to restore averages the time from the creation to the close of incident issues
+ * @param rows Deployments, commits and closed issues of the period
+ * @param config Definitions with every field set
+ * @param periodDays Length of the period in days
+ * @returns Metrics of each repository with activity, and of each team owning one of them
+ */
+export function rollupDoraMetrics(
+  rows: {
+    deployments: DeploymentRow[];
+    commits: CommitRow[];
+    closedIssues: ClosedIssueRow[];
+  },
+  config: Required<DoraMetricsConfig>,
+  periodDays: number,
+): DoraRollup[] {
+  const isProduction = matcher(config.productionEnvironments);
+  const isFailed = matcher(config.failedDeploymentStates);
+  const isIncident = matcher(config.incidentLabels);
+
+  const repositories = new Map<string, DoraTotals>();
+  const totalsOf = (repository: string) => {
+    let totals = repositories.get(repository);
+    if (!totals) {
+      totals = emptyTotals();
+      repositories.set(repository, totals);
+    }
+    return totals;
+  };
+
+  // Time each commit was deployed, keyed by repository and head commit of its push
+  const deployedAt = new Map<string, number>();
+  for (const deployment of rows.deployments) {
+    if (!isProduction(deployment.environment)) {
+      continue;
+    }
+    const totals = totalsOf(deployment.repository);
+    if (isFailed(deployment.state)) {
+      totals.failedDeployments++;
+    } else if (deployment.state.toLowerCase() === "success") {
+      totals.successfulDeployments++;
+      const key = `${deployment.repository}@${deployment.sha}`;
+      deployedAt.set(
+        key,
+        Math.min(deployedAt.get(key) ?? Infinity, deployment.statusAt),
+      );
+    }
+  }
+
+  for (const commit of rows.commits) {
+    const time = deployedAt.get(`${commit.repository}@${commit.sha}`);
+    if (time !== undefined && time >= commit.committedAt) {
+      const totals = totalsOf(commit.repository);
+      totals.leadTimeMillisecondsSum += time - commit.committedAt;
+      totals.deployedCommits++;
+    }
+  }
+
+  for (const issue of rows.closedIssues) {
+    if (issue.labels.some(isIncident)) {
+      const totals = totalsOf(issue.repository);
+      totals.incidents++;
+      totals.restoreMillisecondsSum += Math.max(
+        0,
+        issue.closedAt - issue.createdAt,
+      );
+    }
+  }
+
+  const rollups = [...repositories].map(([repository, totals]) =>
+    toRollup("repository", repository, totals, periodDays),
+  );
+
+  for (const [team, patterns] of Object.entries(config.teams)) {
+    const ownsRepository = matcher(patterns);
+    const owned = [...repositories].filter(([repository]) =>
+      ownsRepository(repository),
+    );
+    if (owned.length === 0) {
+      continue;
+    }
+    const totals = owned.reduce((sum, [, repositoryTotals]) => {
+      for (const key of Object.keys(sum) as (keyof DoraTotals)[]) {
+        sum[key] += repositoryTotals[key];
+      }
+      return sum;
+    }, emptyTotals());
+    rollups.push(toRollup("team", team, totals, periodDays));
+  }
+
+  return rollups;
+}
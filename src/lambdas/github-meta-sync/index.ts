@@ -0,0 +1,91 @@
+import { SNSClient, PublishCommand } from "@aws-sdk/client-sns";
+import {
+  GetParameterCommand,
+  ParameterNotFound,
+  PutParameterCommand,
+  SSMClient,
+} from "@aws-sdk/client-ssm";
+import {
+  formatIpRanges,
+  HOOK_IP_RANGES_PARAMETER_NAME,
+  parseIpRanges,
+} from "../common/github-ip-ranges";
+
+// Initialize AWS SDK clients
+const ssmClient = new SSMClient();
+const snsClient = new SNSClient();
+
+/**
+ * Read the stored IP ranges
+ * @param parameterName SSM parameter name
+ * @returns Stored ranges, or undefined if the parameter has not been created yet
+ */
+async function getStoredIpRanges(
+  parameterName: string,
+): Promise<string | undefined> {
+  try {
+    const response = await ssmClient.send(
+      new GetParameterCommand({ Name: parameterName }),
+    );
+    return formatIpRanges(parseIpRanges(response.Parameter?.Value ?? ""));
+  } catch (error) {
+    if (error instanceof ParameterNotFound) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Scheduled Lambda function that synchronizes the webhook IP allowlist
+ * Fetches the `hooks` ranges from GitHub's /meta endpoint and stores them in the SSM parameter read by the webhook handler.
+ * Creates the parameter on the first run, and publishes an alert to the SNS topic when the ranges differ from the stored ones.
+ */
+export const handler = async () => {
+  const { Octokit } = await import("@octokit/rest");
+  const parameterName =
+    process.env.HOOK_IP_RANGES_PARAMETER_NAME ?? HOOK_IP_RANGES_PARAMETER_NAME;
+
+  // The /meta endpoint does not require authentication
+  const octokit = new Octokit();
+  const { data: meta } = await octokit.meta.get();
+  if (!meta.hooks || meta.hooks.length === 0) {
+    throw new Error("GitHub /meta response has no hooks ranges");
+  }
+
+  const current = formatIpRanges(meta.hooks);
+  const previous = await getStoredIpRanges(parameterName);
+
+  if (current === previous) {
+    console.log("GitHub hooks IP ranges are unchanged:", current);
+    return { changed: false };
+  }
+
+  await ssmClient.send(
+    new PutParameterCommand({
+      Name: parameterName,
+      Value: current,
+      Type: "String",
+      Overwrite: true,
+    }),
+  );
+  if (previous === undefined) {
+    console.log("Created the GitHub hooks IP ranges parameter:", current);
+    return { changed: true };
+  }
+  console.warn("GitHub hooks IP ranges changed:", { previous, current });
+
+  await snsClient.send(
+    new PublishCommand({
+      TopicArn: process.env.ALERT_TOPIC_ARN,
+      Subject: "GitHub webhook IP ranges changed",
+      Message: JSON.stringify({
+        parameterName,
+        previous: previous.split(","),
+        current: current.split(","),
+      }),
+    }),
+  );
+
+  return { changed: true };
+};
@@ -0,0 +1,235 @@
+import type { Octokit } from "@octokit/rest";
+
+/**
+ * Activity of a pull request fetched from the GitHub API
+ */
+export interface PullRequestActivity {
+  pullRequest: any;
+  commits: any[];
+  reviews: any[];
+  requestedReviewers: { users: any[]; teams: any[] };
+  files: any[];
+  timeline: any[];
+}
+
+/**
+ * Cycle-time statistics of a pull request
+ */
+export interface PullRequestStats {
+  changedFiles: number;
+  additions: number;
+  deletions: number;
+  commits: number;
+  /**
+   * Author time of the earliest commit in milliseconds since Unix epoch
+   */
+  firstCommitTime?: number;
+  /**
+   * Submission time of the earliest review by someone other than the author in milliseconds since Unix epoch
+   */
+  firstReviewTime?: number;
+  reviews: number;
+  /**
+   * Number of batches of reviews separated by pushes to the pull request
+   */
+  reviewRounds: number;
+  requestedReviewers: number;
+  forcePushes: number;
+  draftSeconds: number;
+}
+
+/**
+ * Lines changed under a path prefix
+ */
+export interface PathChurn {
+  pathPrefix: string;
+  files: number;
+  additions: number;
+  deletions: number;
+}
+
+/**
+ * Fetch the commits, reviews, requested reviewers, files and timeline of a pull request
+ * The GitHub API lists at most 250 commits and 3000 files of a pull request.
+ * @param octokit Octokit client
+ * @param owner Repository owner
+ * @param repo Repository name
+ * @param pullNumber Pull request number
+ * @returns Activity of the pull request
+ */
+export async function fetchPullRequestActivity(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  pullNumber: number,
+): Promise<PullRequestActivity> {
+  const params = { owner, repo, pull_number: pullNumber, per_page: 100 };
+  const { data: pullRequest } = await octokit.pulls.get({
+    owner,
+    repo,
+    pull_number: pullNumber,
+  });
+  const commits = await octokit.paginate(octokit.pulls.listCommits, params);
+  const reviews = await octokit.paginate(octokit.pulls.listReviews, params);
+  const { data: requestedReviewers } =
+    await octokit.pulls.listRequestedReviewers({
+      owner,
+      repo,
+      pull_number: pullNumber,
+    });
+  const files = await octokit.paginate(octokit.pulls.listFiles, params);
+  const timeline = await octokit.paginate(
+    octokit.issues.listEventsForTimeline,
+    { owner, repo, issue_number: pullNumber, per_page: 100 },
+  );
+  return {
+    pullRequest,
+    commits,
+    reviews,
+    requestedReviewers,
+    files,
+    timeline,
+  };
+}
+
+function toTime(value: string | null | undefined): number | undefined {
+  return value ? new Date(value).getTime() : undefined;
+}
+
+function earliest(times: (number | undefined)[]): number | undefined {
+  const defined = times.filter((time): time is number => time !== undefined);
+  return defined.length > 0 ? Math.min(...defined) : undefined;
+}
+
+/**
+ * Count batches of reviews, starting a new round whenever something was pushed since the previous review
+ * @param reviewTimes Submission times of the reviews
+ * @param pushTimes Times of commits and force-pushes
+ * @returns Number of review rounds
+ */
+function countReviewRounds(reviewTimes: number[], pushTimes: number[]): number {
+  let rounds = 0;
+  let previous: number | undefined;
+  for (const reviewTime of [...reviewTimes].sort((a, b) => a - b)) {
+    if (
+      previous === undefined ||
+      pushTimes.some((time) => time > previous! && time <= reviewTime)
+    ) {
+      rounds++;
+    }
+    previous = reviewTime;
+  }
+  return rounds;
+}
+
+/**
+ * Sum the time a pull request spent in draft from its timeline
+ * A pull request whose first draft transition is `ready_for_review` was opened as a draft.
+ * @param pullRequest Pull request
+ * @param timeline Timeline events of the pull request
+ * @param now Current time in milliseconds since Unix epoch, ending the draft period of a pull request still in draft
+ * @returns Seconds spent in draft
+ */
+function sumDraftSeconds(pullRequest: any, timeline: any[], now: number) {
+  const transitions = timeline
+    .filter((event) =>
+      ["convert_to_draft", "ready_for_review"].includes(event.event),
+    )
+    .sort((a, b) => toTime(a.created_at)! - toTime(b.created_at)!);
+
+  let draftSince =
+    transitions[0]?.event === "ready_for_review" ||
+    (transitions.length === 0 && pullRequest.draft)
+      ? toTime(pullRequest.created_at)
+      : undefined;
+  let total = 0;
+  for (const transition of transitions) {
+    const time = toTime(transition.created_at)!;
+    if (transition.event === "convert_to_draft") {
+      draftSince ??= time;
+    } else if (draftSince !== undefined) {
+      total += time - draftSince;
+      draftSince = undefined;
+    }
+  }
+  if (draftSince !== undefined) {
+    total += (toTime(pullRequest.closed_at) ?? now) - draftSince;
+  }
+  return Math.floor(total / 1000);
+}
+
+/**
+ * Summarize the activity of a pull request into cycle-time statistics
+ * Reviews by the author and pending reviews are not counted.
+ * @param activity Activity of the pull request
+ * @param now Current time in milliseconds since Unix epoch
+ * @returns Statistics of the pull request
+ */
+export function summarizePullRequest(
+  activity: PullRequestActivity,
+  now: number = Date.now(),
+): PullRequestStats {
+  const { pullRequest, commits, requestedReviewers, timeline } = activity;
+  const reviews = activity.reviews.filter(
+    (review) =>
+      review.state !== "PENDING" &&
+      review.submitted_at &&
+      review.user?.id !== pullRequest.user?.id,
+  );
+  const reviewTimes = reviews.map((review) => toTime(review.submitted_at)!);
+  const forcePushTimes = timeline
+    .filter((event) => event.event === "head_ref_force_pushed")
+    .map((event) => toTime(event.created_at)!);
+  const pushTimes = [
+    ...commits
+      .map((commit) => toTime(commit.commit?.committer?.date))
+      .filter((time): time is number => time !== undefined),
+    ...forcePushTimes,
+  ];
+
+  return {
+    changedFiles: pullRequest.changed_files,
+    additions: pullRequest.additions,
+    deletions: pullRequest.deletions,
+    commits: commits.length,
+    firstCommitTime: earliest(
+      commits.map((commit) => toTime(commit.commit?.author?.date)),
+    ),
+    firstReviewTime: earliest(reviewTimes),
+    reviews: reviews.length,
+    reviewRounds: countReviewRounds(reviewTimes, pushTimes),
+    requestedReviewers:
+      requestedReviewers.users.length + requestedReviewers.teams.length,
+    forcePushes: forcePushTimes.length,
+    draftSeconds: sumDraftSeconds(pullRequest, timeline, now),
+  };
+}
+
+/**
+ * Sum the lines changed by a pull request per path prefix
+ * @param files Files of the pull request
+ * @param depth Number of leading directories forming the prefix
+ * @returns Churn per path prefix, files at the repository root being grouped under "/"
+ */
+export function summarizeChurnByPathPrefix(
+  files: any[],
+  depth: number = 1,
+): PathChurn[] {
+  const churn = new Map<string, PathChurn>();
+  for (const file of files) {
+    const directories = (file.filename as string).split("/").slice(0, -1);
+    const pathPrefix =
+      directories.length > 0 ? directories.slice(0, depth).join("/") : "/";
+    const entry = churn.get(pathPrefix) ?? {
+      pathPrefix,
+      files: 0,
+      additions: 0,
+      deletions: 0,
+    };
+    entry.files++;
+    entry.additions += file.additions;
+    entry.deletions += file.deletions;
+    churn.set(pathPrefix, entry);
+  }
+  return [...churn.values()];
+}
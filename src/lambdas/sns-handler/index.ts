@@ -1,151 +1,431 @@
-import { SSMClient, GetParameterCommand } from "@aws-sdk/client-ssm";
+import { SQSClient, SendMessageCommand } from "@aws-sdk/client-sqs";
 import {
-  TimestreamWriteClient,
-  WriteRecordsCommand,
+  MeasureValue,
+  MeasureValueType,
+  _Record,
 } from "@aws-sdk/client-timestream-write";
-const ssmClient = new SSMClient();
-const timestreamClient = new TimestreamWriteClient();
+import type { Octokit } from "@octokit/rest";
+import {
+  fetchPullRequestActivity,
+  PathChurn,
+  PullRequestStats,
+  summarizeChurnByPathPrefix,
+  summarizePullRequest,
+} from "./enrichment";
+import {
+  fetchWorkflowJobs,
+  JobTiming,
+  summarizeWorkflowJobs,
+} from "./workflow-jobs";
+import {
+  ActivityMessage,
+  InvalidActivityMessageError,
+  parseActivityMessage,
+  PullRequestActivityMessage,
+  WorkflowRunActivityMessage,
+} from "../common/activity-message";
+import { getGitHubToken } from "../common/github-auth";
+import {
+  createGitHubClient,
+  GitHubRateLimitError,
+} from "../common/github-client";
+import { putMetric } from "../common/metrics";
+import {
+  loadPseudonymizer,
+  pseudonymizeRecord,
+  savePseudonyms,
+} from "../common/pseudonymization";
+import { writeTimestreamRecords } from "../common/timestream-write";
+
+const sqsClient = new SQSClient();
+
+// Longest delay of an SQS message
+const MAX_DELAY_SECONDS = 900;
+
+// Longest error description kept in the message attributes of the dead-letter queue
+const MAX_ERROR_LENGTH = 1024;
+
+// Statuses of the GitHub API meaning that the resource was deleted (e.g. 404 Not Found, 410 Gone)
+const SKIPPED_STATUSES = [404, 410];
+
+/**
+ * Fetch the activity of the pull request of a message and write its statistics to Timestream
+ * @param octokit Octokit client
+ * @param parsedMessage Message published by the webhook worker
+ */
+async function processPullRequestMessage(
+  octokit: Octokit,
+  parsedMessage: PullRequestActivityMessage,
+) {
+  const activity = await fetchPullRequestActivity(
+    octokit,
+    parsedMessage.organization,
+    parsedMessage.repository,
+    parsedMessage.number,
+  );
+
+  // Write pull request information to Timestream
+  await sendPullRequestDataToTimestream(
+    parsedMessage,
+    summarizePullRequest(activity),
+    summarizeChurnByPathPrefix(activity.files),
+    activity.pullRequest.updated_at,
+  );
+}
 
 /**
- * Simple Lambda function called from an SNS topic
- * Receives messages and outputs them to standard output
+ * Fetch the jobs and steps of the workflow run of a message and write their timings to Timestream
+ * @param octokit Octokit client
+ * @param parsedMessage Message published by the webhook worker
  */
+async function processWorkflowRunMessage(
+  octokit: Octokit,
+  parsedMessage: WorkflowRunActivityMessage,
+) {
+  const jobs = await fetchWorkflowJobs(
+    octokit,
+    parsedMessage.organization,
+    parsedMessage.repository,
+    parsedMessage.runId,
+    parsedMessage.runAttempt,
+  );
 
-export const handler = async (event: any, context: any) => {
-  const { Octokit } = await import("@octokit/rest");
-
-  // Processing SNS messages
-  try {
-    // Get messages from SNS events
-    const records = event.Records || [];
-    const secretToken = await getSecretFromParameterStore(
-      "/github/metrics/github-token",
-    );
-
-    for (const record of records) {
-      if (record.Sns) {
-        const message = record.Sns.Message;
-        console.log("SNS message:", message);
-
-        const parsedMessage = JSON.parse(message);
-
-        const octokit = new Octokit({
-          auth: secretToken,
-        });
-
-        const { data: pullRequest } = await octokit.pulls.get({
-          owner: parsedMessage.organization,
-          repo: parsedMessage.repository,
-          pull_number: parsedMessage.number,
-        });
-
-        // Write pull request information to Timestream
-        await sendPullRequestDataToTimestream(
-          parsedMessage.organization,
-          parsedMessage.repository,
-          parsedMessage.number,
-          pullRequest.changed_files,
-          pullRequest.additions,
-          pullRequest.deletions,
-          parsedMessage.action,
-          parsedMessage.deliveryId,
-        );
-
-        // Additional processing can be added here
-        // In this simple example, we're just outputting the message
-      }
+  await sendWorkflowJobDataToTimestream(
+    parsedMessage,
+    summarizeWorkflowJobs(jobs),
+  );
+}
+
+/**
+ * Enrich the event of a message with data fetched from the GitHub API
+ * @param parsedMessage Message published by the webhook worker
+ */
+async function processMessage(parsedMessage: ActivityMessage) {
+  // Authenticate as the GitHub App installed on the repository, or with the personal access token
+  const octokit = await createGitHubClient({
+    auth: await getGitHubToken(
+      parsedMessage.organization,
+      parsedMessage.repository,
+    ),
+  });
+
+  switch (parsedMessage.eventType) {
+    case "workflow_run":
+      return processWorkflowRunMessage(octokit, parsedMessage);
+    case "pull_request":
+      return processPullRequestMessage(octokit, parsedMessage);
+  }
+}
+
+/**
+ * Put a message back on the deferred queue until the rate limit of the GitHub API resets
+ * A message deferred further than the longest SQS delay is deferred again when it is received.
+ * @param message Raw message
+ * @param error Rate limit error
+ */
+async function deferMessage(message: string, error: GitHubRateLimitError) {
+  const delaySeconds = Math.min(
+    MAX_DELAY_SECONDS,
+    Math.max(0, Math.ceil((error.retryAt - Date.now()) / 1000)),
+  );
+  console.warn(`${error.message}, deferring the message by ${delaySeconds}s`);
+  await sqsClient.send(
+    new SendMessageCommand({
+      QueueUrl: process.env.DEFERRED_QUEUE_URL!,
+      MessageBody: message,
+      DelaySeconds: delaySeconds,
+    }),
+  );
+}
+
+/**
+ * Move a message that does not match the schema to the invalid message queue, instead of retrying it
+ * @param message Raw message
+ * @param reason Why the message is invalid
+ */
+async function rejectMessage(message: string, reason: string) {
+  console.warn(`Rejecting invalid message: ${reason}`);
+  await sqsClient.send(
+    new SendMessageCommand({
+      QueueUrl: process.env.INVALID_MESSAGE_QUEUE_URL!,
+      MessageBody: message,
+      MessageAttributes: {
+        reason: { DataType: "String", StringValue: reason },
+      },
+    }),
+  );
+}
+
+/**
+ * Move a message that failed processing to the dead-letter queue, with the error in the `error` message attribute
+ * The message body is kept as is, so that the message can be redriven to the deferred queue.
+ * @param message Raw message
+ * @param error Error that failed the processing
+ */
+async function sendToDeadLetterQueue(message: string, error: unknown) {
+  const description =
+    error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+  await sqsClient.send(
+    new SendMessageCommand({
+      QueueUrl: process.env.DEAD_LETTER_QUEUE_URL!,
+      MessageBody: message,
+      MessageAttributes: {
+        error: {
+          DataType: "String",
+          StringValue: description.slice(0, MAX_ERROR_LENGTH),
+        },
+      },
+    }),
+  );
+}
+
+/**
+ * Handle a message that failed processing
+ * * Messages are deferred when the rate limit budget of the GitHub API runs low
+ * * Messages that do not match the schema are rejected to the invalid message queue
+ * * Messages of deleted repositories, pull requests and workflow runs are skipped
+ * * Other failures are moved to the dead-letter queue
+ * @param message Raw message
+ * @param eventType Event type of the message, if it could be parsed
+ * @param error Error that failed the processing
+ */
+async function handleFailedMessage(
+  message: string,
+  eventType: string | undefined,
+  error: unknown,
+) {
+  if (error instanceof GitHubRateLimitError) {
+    await deferMessage(message, error);
+  } else if (error instanceof InvalidActivityMessageError) {
+    await rejectMessage(message, error.message);
+  } else if (
+    SKIPPED_STATUSES.includes((error as { status?: number })?.status ?? 0)
+  ) {
+    console.warn("Skipping the message, the resource no longer exists:", error);
+    putMetric("SkippedEnrichments", 1, "Count", {
+      EventType: eventType ?? "unknown",
+    });
+  } else {
+    console.error("Failed to process the message:", error);
+    putMetric("FailedEnrichments", 1, "Count", {
+      EventType: eventType ?? "unknown",
+    });
+    await sendToDeadLetterQueue(message, error);
+  }
+}
+
+/**
+ * Lambda function called from the GitHub activity SNS topic and the deferred SQS queue
+ * Fetches pull request statistics and workflow job timings from the GitHub API and writes them to Timestream.
+ * Each record is processed independently, so that a failed record does not affect the others of the batch.
+ */
+export const handler = async (event: any) => {
+  const records = event.Records || [];
+  const batchItemFailures: { itemIdentifier: string }[] = [];
+
+  for (const record of records) {
+    // SNS notifications carry the message in Sns.Message, deferred SQS messages in body
+    const message: string | undefined = record.Sns?.Message ?? record.body;
+    if (message === undefined) {
+      continue;
     }
+    console.log("Message:", message);
 
-    return {
-      statusCode: 200,
-      body: JSON.stringify({ message: "success" }),
-    };
-  } catch (error) {
-    console.error("Unknown error:", error);
-    return {
-      statusCode: 500,
-      body: JSON.stringify({
-        message: "Unknown error",
-      }),
-    };
+    let parsedMessage: ActivityMessage | undefined;
+    try {
+      parsedMessage = parseActivityMessage(message);
+      await processMessage(parsedMessage);
+    } catch (error) {
+      try {
+        await handleFailedMessage(message, parsedMessage?.eventType, error);
+      } catch (handlingError) {
+        console.error("Failed to handle the failed message:", handlingError);
+        // SNS retries the invocation, while SQS retries the message and eventually moves it to the dead-letter queue
+        if (!record.messageId) {
+          throw handlingError;
+        }
+        batchItemFailures.push({ itemIdentifier: record.messageId });
+      }
+    }
   }
+
+  return { batchItemFailures };
 };
 
-// Function to retrieve secret from SSM Parameter Store
-async function getSecretFromParameterStore(
-  parameterName: string,
-): Promise<string> {
-  const params = {
-    Name: parameterName,
-    WithDecryption: true,
-  };
-
-  try {
-    const command = new GetParameterCommand(params);
-    const response = await ssmClient.send(command);
-    return response.Parameter!.Value!;
-  } catch (error) {
-    console.error("Error fetching parameter from SSM:", error);
-    throw error;
+function bigint(name: string, value: number): MeasureValue {
+  return { Name: name, Value: value.toString(), Type: MeasureValueType.BIGINT };
+}
+
+function timestamp(name: string, value: number | undefined): MeasureValue[] {
+  return value === undefined
+    ? []
+    : [
+      {
+        Name: name,
+        Value: value.toString(),
+        Type: MeasureValueType.TIMESTAMP,
+      },
+    ];
+}
+
+/**
+ * Write records to the GitHub API result table, pseudonymizing identities if enabled
+ * @param records Records to write
+ */
+async function writeRecords(records: _Record[]) {
+  const pseudonymizer = await loadPseudonymizer();
+  if (pseudonymizer) {
+    records.forEach((record) => pseudonymizeRecord(record, pseudonymizer));
+  }
+
+  const results = await writeTimestreamRecords(
+    process.env.TIMESTREAM_DATABASE_NAME!,
+    process.env.TIMESTREAM_TABLE_NAME!,
+    records,
+  );
+  console.log("Successfully wrote data to Timestream:", results);
+
+  // Record the tokens for authorized reverse lookup
+  if (pseudonymizer) {
+    await savePseudonyms(process.env.PSEUDONYM_TABLE_NAME, pseudonymizer);
   }
 }
 
-// Function to send PR data to Timestream
+/**
+ * Write the statistics of a pull request to Timestream
+ * The statistics are written as a `pr_stats` record, and the churn as a `pr_path_churn` record per path prefix.
+ * @param parsedMessage Message published by the webhook worker
+ * @param stats Statistics of the pull request
+ * @param churn Lines changed per path prefix
+ * @param updatedAt Time the fetched pull request was last updated
+ */
 async function sendPullRequestDataToTimestream(
-  organization: string,
-  repository: string,
-  pullNumber: number,
-  changedFiles: number,
-  additions: number,
-  deletions: number,
-  action: string,
-  deliveryId: string,
+  parsedMessage: PullRequestActivityMessage,
+  stats: PullRequestStats,
+  churn: PathChurn[],
+  updatedAt: string,
 ) {
-  // Get current timestamp in milliseconds
-  const currentTime = Date.now().toString();
+  // Write the records at the time the fetched pull request was last updated
+  const ingestedAt = Date.now();
+  const currentTime = new Date(updatedAt).getTime().toString();
 
-  // Create dimensions (metadata) for the record
+  // Create dimensions (metadata) for the records
   const dimensions = [
-    { Name: "organization", Value: organization },
-    { Name: "repository", Value: repository },
-    { Name: "pull_number", Value: pullNumber.toString() },
-    { Name: "action", Value: action },
-    { Name: "delivery_id", Value: deliveryId },
+    { Name: "organization", Value: parsedMessage.organization },
+    { Name: "repository", Value: parsedMessage.repository },
+    { Name: "pull_number", Value: parsedMessage.number.toString() },
+    { Name: "action", Value: parsedMessage.action },
+    { Name: "delivery_id", Value: parsedMessage.deliveryId },
     { Name: "event_type", Value: "pull_request" },
   ];
 
-  // Create a single record with multiple measure values
-  const records = [
+  await writeRecords([
     {
       Dimensions: dimensions,
       MeasureName: "pr_stats",
-      MeasureValueType: "MULTI",
+      MeasureValueType: MeasureValueType.MULTI,
       MeasureValues: [
-        {
-          Name: "pr_changed_files",
-          Value: changedFiles.toString(),
-          Type: "BIGINT",
-        },
-        { Name: "pr_additions", Value: additions.toString(), Type: "BIGINT" },
-        { Name: "pr_deletions", Value: deletions.toString(), Type: "BIGINT" },
+        bigint("pr_changed_files", stats.changedFiles),
+        bigint("pr_additions", stats.additions),
+        bigint("pr_deletions", stats.deletions),
+        bigint("pr_commits", stats.commits),
+        ...timestamp("pr_first_commit_time", stats.firstCommitTime),
+        ...timestamp("pr_first_review_time", stats.firstReviewTime),
+        bigint("pr_reviews", stats.reviews),
+        bigint("pr_review_rounds", stats.reviewRounds),
+        bigint("pr_requested_reviewers", stats.requestedReviewers),
+        bigint("pr_force_pushes", stats.forcePushes),
+        bigint("pr_draft_seconds", stats.draftSeconds),
+        ...timestamp("ingested_at", ingestedAt),
       ],
       Time: currentTime,
     },
+    ...churn.map((entry) => ({
+      Dimensions: [
+        ...dimensions,
+        { Name: "path_prefix", Value: entry.pathPrefix },
+      ],
+      MeasureName: "pr_path_churn",
+      MeasureValueType: MeasureValueType.MULTI,
+      MeasureValues: [
+        bigint("pr_path_files", entry.files),
+        bigint("pr_path_additions", entry.additions),
+        bigint("pr_path_deletions", entry.deletions),
+        ...timestamp("ingested_at", ingestedAt),
+      ],
+      Time: currentTime,
+    })),
+  ]);
+}
+
+/**
+ * Write the timings of the jobs of a workflow run to Timestream
+ * Each job is written as a `wf_job_stats` record and each of its steps as a `wf_step_stats` record, at the time they completed.
+ * @param parsedMessage Message published by the webhook worker
+ * @param jobs Timings of the jobs
+ */
+async function sendWorkflowJobDataToTimestream(
+  parsedMessage: WorkflowRunActivityMessage,
+  jobs: JobTiming[],
+) {
+  const ingestedAt = Date.now();
+
+  // Timestream rejects dimensions with empty values
+  const dimension = (name: string, value: string | number | undefined) =>
+    value === undefined || value === ""
+      ? []
+      : [{ Name: name, Value: value.toString() }];
+  const dimensions = [
+    { Name: "organization", Value: parsedMessage.organization },
+    { Name: "repository", Value: parsedMessage.repository },
+    { Name: "run_id", Value: parsedMessage.runId.toString() },
+    { Name: "run_attempt", Value: parsedMessage.runAttempt.toString() },
+    ...dimension("workflow_name", parsedMessage.workflowName),
+    { Name: "action", Value: parsedMessage.action },
+    { Name: "delivery_id", Value: parsedMessage.deliveryId },
+    { Name: "event_type", Value: "workflow_run" },
   ];
 
-  try {
-    const params = {
-      DatabaseName: process.env.TIMESTREAM_DATABASE_NAME!,
-      TableName: process.env.TIMESTREAM_TABLE_NAME!,
-      Records: records,
-    };
-
-    const command = new WriteRecordsCommand(params);
-    const result = await timestreamClient.send(command);
-    console.log("Successfully wrote PR data to Timestream:", result);
-    return result;
-  } catch (error) {
-    console.error("Error sending PR data to Timestream:", error);
-    throw error;
-  }
+  await writeRecords(
+    jobs.flatMap((job) => {
+      const jobDimensions = [
+        ...dimensions,
+        { Name: "job_id", Value: job.id.toString() },
+        { Name: "job_name", Value: job.name },
+        ...dimension("job_conclusion", job.conclusion),
+        ...dimension("runner_name", job.runnerName),
+        ...dimension("runner_group_name", job.runnerGroupName),
+        ...dimension("runner_labels", job.labels.join(",")),
+      ];
+      return [
+        {
+          Dimensions: jobDimensions,
+          MeasureName: "wf_job_stats",
+          MeasureValueType: MeasureValueType.MULTI,
+          MeasureValues: [
+            bigint("wf_job_duration_seconds", job.durationSeconds),
+            bigint("wf_job_queued_seconds", job.queuedSeconds),
+            bigint("wf_job_steps", job.steps.length),
+            ...timestamp("ingested_at", ingestedAt),
+          ],
+          Time: job.completedAt.toString(),
+        },
+        ...job.steps.map((step) => ({
+          Dimensions: [
+            ...jobDimensions,
+            { Name: "step_number", Value: step.number.toString() },
+            { Name: "step_name", Value: step.name },
+            ...dimension("step_conclusion", step.conclusion),
+          ],
+          MeasureName: "wf_step_stats",
+          MeasureValueType: MeasureValueType.MULTI,
+          MeasureValues: [
+            bigint("wf_step_duration_seconds", step.durationSeconds),
+            ...timestamp("ingested_at", ingestedAt),
+          ],
+          Time: step.completedAt.toString(),
+        })),
+      ];
+    }),
+  );
 }
@@ -0,0 +1,102 @@
+import type { Octokit } from "@octokit/rest";
+
+/**
+ * Timing of a step of a workflow job
+ */
+export interface StepTiming {
+  number: number;
+  name: string;
+  conclusion?: string;
+  /**
+   * Completion time in milliseconds since Unix epoch
+   */
+  completedAt: number;
+  durationSeconds: number;
+}
+
+/**
+ * Timing and runner of a workflow job
+ */
+export interface JobTiming {
+  id: number;
+  name: string;
+  conclusion?: string;
+  runnerName?: string;
+  runnerGroupName?: string;
+  labels: string[];
+  /**
+   * Completion time in milliseconds since Unix epoch
+   */
+  completedAt: number;
+  /**
+   * Seconds between the job being queued and a runner picking it up
+   */
+  queuedSeconds: number;
+  durationSeconds: number;
+  steps: StepTiming[];
+}
+
+/**
+ * Fetch the jobs of an attempt of a workflow run, including their steps
+ * @param octokit Octokit client
+ * @param owner Repository owner
+ * @param repo Repository name
+ * @param runId Workflow run ID
+ * @param attemptNumber Attempt of the workflow run
+ * @returns Jobs of the attempt
+ */
+export async function fetchWorkflowJobs(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  runId: number,
+  attemptNumber: number,
+): Promise<any[]> {
+  return octokit.paginate(octokit.actions.listJobsForWorkflowRunAttempt, {
+    owner,
+    repo,
+    run_id: runId,
+    attempt_number: attemptNumber,
+    per_page: 100,
+  });
+}
+
+function secondsBetween(from: string, to: string): number {
+  return Math.max(
+    0,
+    Math.round((new Date(to).getTime() - new Date(from).getTime()) / 1000),
+  );
+}
+
+/**
+ * Summarize the timings of the jobs of a workflow run
+ * Jobs and steps that did not run (e.g. skipped ones) have no start or completion time and are left out.
+ * @param jobs Jobs of the workflow run
+ * @returns Timings of the jobs that ran
+ */
+export function summarizeWorkflowJobs(jobs: any[]): JobTiming[] {
+  return jobs
+    .filter((job) => job.started_at && job.completed_at)
+    .map((job) => ({
+      id: job.id,
+      name: job.name,
+      conclusion: job.conclusion ?? undefined,
+      runnerName: job.runner_name ?? undefined,
+      runnerGroupName: job.runner_group_name ?? undefined,
+      labels: job.labels ?? [],
+      completedAt: new Date(job.completed_at).getTime(),
+      queuedSeconds: job.created_at
+        ? secondsBetween(job.created_at, job.started_at)
+        : 0,
+      durationSeconds: secondsBetween(job.started_at, job.completed_at),
+      steps: (job.steps ?? [])
+        .filter((step: any) => step.started_at && step.completed_at)
+        .map((step: any) => ({
+          number: step.number,
+          name: step.name,
+          conclusion: step.conclusion ?? undefined,
+          completedAt: new Date(step.completed_at).getTime(),
+          durationSeconds: secondsBetween(step.started_at, step.completed_at),
+        })),
+    }));
+}
@@ -1,161 +1,92 @@
-import { SSMClient, GetParameterCommand } from "@aws-sdk/client-ssm";
-import {
-  TimestreamWriteClient,
-  WriteRecordsCommand,
-} from "@aws-sdk/client-timestream-write";
-import { SNSClient, PublishCommand } from "@aws-sdk/client-sns";
-import { Webhooks } from "@octokit/webhooks";
+import { SQSClient, SendMessageCommand } from "@aws-sdk/client-sqs";
 import ipRangeCheck from "ip-range-check";
-import { getMeasure } from "./measures";
-
-// Define GitHub IP ranges
-const GITHUB_IP_RANGES = [
-  "192.30.252.0/22",
-  "185.199.108.0/22",
-  "140.82.112.0/20",
-  "143.55.64.0/20",
-  "2a0a:a440::/29",
-  "2606:50c0::/32",
-];
+import { getAllowedIpRanges } from "./ip-allowlist";
+import {
+  findWebhookSecretSource,
+  getWebhookSecrets,
+  verifyWebhookSignature,
+} from "./webhook-secrets";
+import { claimDelivery, releaseDelivery } from "../common/deduplication";
+import { HOOK_IP_RANGES_PARAMETER_NAME } from "../common/github-ip-ranges";
+import {
+  evaluateIngestionFilter,
+  IngestionFilter,
+} from "../common/ingestion-filter";
+import { putMetric } from "../common/metrics";
+import { putArchivedDelivery } from "../common/webhook-archive";
+import { WebhookQueueMessage } from "../common/webhook-queue";
 
 // Initialize AWS SDK clients
-const ssmClient = new SSMClient();
-const timestreamClient = new TimestreamWriteClient();
-
-// Function to retrieve secret from SSM Parameter Store
-async function getSecretFromParameterStore(
-  parameterName: string,
-): Promise<string> {
-  const params = {
-    Name: parameterName,
-    WithDecryption: true,
+const sqsClient = new SQSClient();
+
+// Ingestion filter configured on the stack
+const ingestionFilter: IngestionFilter = JSON.parse(
+  process.env.INGESTION_FILTER || "{}",
+);
+
+/**
+ * Archive a verified delivery as the source of truth for replay and backfill
+ * @param githubEvent GitHub event type
+ * @param githubDelivery GitHub delivery ID
+ * @param parsedBody Parsed webhook payload
+ * @returns Message of the webhook queue referring to the archived delivery
+ */
+async function archiveDelivery(
+  githubEvent: string,
+  githubDelivery: string,
+  parsedBody: any,
+): Promise<WebhookQueueMessage> {
+  const receivedAt = new Date().toISOString();
+  const archivedKey = await putArchivedDelivery(
+    process.env.ARCHIVE_BUCKET_NAME!,
+    {
+      deliveryId: githubDelivery,
+      eventType: githubEvent,
+      receivedAt,
+      payload: parsedBody,
+    },
+  );
+  console.log(`Archived delivery to ${archivedKey}`);
+
+  // Log metadata separately
+  console.log("GitHub Webhook received:", {
+    event_type: githubEvent,
+    delivery_id: githubDelivery,
+    repository: parsedBody.repository?.full_name,
+    organization: parsedBody.organization?.login,
+    sender: parsedBody.sender?.login,
+  });
+
+  return {
+    deliveryId: githubDelivery,
+    eventType: githubEvent,
+    receivedAt,
+    archiveKey: archivedKey,
   };
-
-  try {
-    const command = new GetParameterCommand(params);
-    const response = await ssmClient.send(command);
-    return response.Parameter!.Value!;
-  } catch (error) {
-    console.error("Error fetching parameter from SSM:", error);
-    throw error;
-  }
 }
 
-// Function to send data to Timestream
-async function sendToTimestream(
-  data: any,
-  databaseName: string,
-  tableName: string,
-) {
-  // Get current timestamp in milliseconds
-  const currentTime = Date.now().toString();
-
-  // Create common dimensions (metadata)
-  const commonDimensions = [
-    { Name: "event_type", Value: data.event_type },
-    { Name: "delivery_id", Value: data.delivery_id },
-  ];
-
-  // Add repository information if it exists
-  if (data.repository) {
-    commonDimensions.push(
-      { Name: "repository_id", Value: data.repository.id.toString() },
-      { Name: "repository_name", Value: data.repository.name },
-      { Name: "repository_full_name", Value: data.repository.full_name },
-    );
-  }
-
-  // Add organization information if it exists
-  if (data.organization) {
-    commonDimensions.push(
-      { Name: "organization_id", Value: data.organization.id.toString() },
-      { Name: "organization_login", Value: data.organization.login },
-    );
-  }
-
-  // Add sender information if it exists
-  if (data.sender) {
-    commonDimensions.push(
-      { Name: "sender_id", Value: data.sender.id.toString() },
-      { Name: "sender_login", Value: data.sender.login },
-    );
-  }
-
-  // Add action if it exists
-  if (data.action) {
-    commonDimensions.push({ Name: "action", Value: data.action });
-  }
-
-  const measure = getMeasure(data.event_type, data.payload);
-  console.log("Measure:", measure);
-
-  // Create records
-  const records =
-    "measureValue" in measure
-      ? [
-          {
-            Dimensions: commonDimensions,
-            MeasureName: measure.measureName,
-            MeasureValue: measure.measureValue,
-            MeasureValueType: measure.measureValueType,
-            Time: currentTime,
-          },
-        ]
-      : [
-          {
-            Dimensions: commonDimensions,
-            MeasureName: measure.measureName,
-            MeasureValues: measure.measureValues,
-            MeasureValueType: measure.measureValueType,
-            Time: currentTime,
-          },
-        ];
-
-  try {
-    const params = {
-      DatabaseName: databaseName,
-      TableName: tableName,
-      Records: records,
-    };
-
-    const command = new WriteRecordsCommand(params);
-    const result = await timestreamClient.send(command);
-    return result;
-  } catch (error) {
-    console.error("Error sending data to Timestream:", error);
-    throw error;
-  }
-}
-
-async function publishPullRequestEventToSnsTopic(
-  deriveryId: string,
-  data: any,
-) {
-  if (
-    "number" in data &&
-    "action" in data &&
-    "organization" in data &&
-    "login" in data.organization &&
-    "repository" in data &&
-    "name" in data.repository
-  ) {
-    const snsClient = new SNSClient({ region: process.env.AWS_REGION });
-    const snsTopicArn = process.env.SNS_TOPIC_ARN;
-    const snsMessage = {
-      deliveryId: deriveryId,
-      eventType: "pull_request",
-      action: data.action,
-      number: data.number,
-      organization: data.organization.login,
-      repository: data.repository.name,
-    };
-    await snsClient.send(
-      new PublishCommand({
-        Message: JSON.stringify(snsMessage),
-        TopicArn: snsTopicArn,
-      }),
-    );
-  }
+/**
+ * Enqueue an archived delivery for the webhook worker
+ * @param message Message of the webhook queue
+ * @returns Lambda response
+ */
+async function enqueueDelivery(message: WebhookQueueMessage) {
+  // Extraction and writes are done by the webhook worker
+  await sqsClient.send(
+    new SendMessageCommand({
+      QueueUrl: process.env.WEBHOOK_QUEUE_URL,
+      MessageBody: JSON.stringify(message),
+    }),
+  );
+
+  // Return accepted response
+  return {
+    statusCode: 202,
+    body: JSON.stringify({
+      message: "Webhook received and queued for processing",
+      eventType: message.eventType,
+    }),
+  };
 }
 
 // Main Lambda function handler
@@ -172,7 +103,11 @@ export const handler = async (event: any) => {
 
     // Validate IP is from GitHub
     if (sourceIp) {
-      const isGitHubIp = GITHUB_IP_RANGES.some((range) =>
+      const allowedIpRanges = await getAllowedIpRanges(
+        process.env.HOOK_IP_RANGES_PARAMETER_NAME ??
+          HOOK_IP_RANGES_PARAMETER_NAME,
+      );
+      const isGitHubIp = allowedIpRanges.some((range) =>
         ipRangeCheck(sourceIp, range),
       );
 
@@ -218,29 +153,65 @@ export const handler = async (event: any) => {
       };
     }
 
-    // Get secret from SSM Parameter Store
-    const secretToken = await getSecretFromParameterStore(
-      "/github/metrics/secret-token",
-    );
-
-    // Create webhook instance with the secret
-    const webhooks = new Webhooks({
-      secret: secretToken,
-    });
-
     // Ensure body is a string for webhook verification
     const bodyStr = typeof body === "string" ? body : JSON.stringify(body);
 
-    // Verify GitHub webhook signature using @octokit/webhooks
+    // Find the secret of the organization or repository that sent the delivery.
+    // The payload is not verified yet, so it is only used to choose the secret.
+    let unverifiedPayload;
     try {
-      await webhooks.verify(bodyStr, signature);
-    } catch (error) {
-      console.error("Invalid signature", error);
+      unverifiedPayload = typeof body === "string" ? JSON.parse(body) : body;
+    } catch {
+      unverifiedPayload = undefined;
+    }
+    const secretSource = await findWebhookSecretSource(
+      process.env.WEBHOOK_SECRETS_PATH ?? "/github/metrics/webhook-secrets",
+      process.env.WEBHOOK_SECRET_PARAMETER_NAME ??
+        "/github/metrics/secret-token",
+      unverifiedPayload,
+    );
+
+    // Get the accepted secrets from SSM Parameter Store
+    const secrets = await getWebhookSecrets(
+      secretSource.parameterName,
+      Number(process.env.WEBHOOK_SECRET_GRACE_PERIOD_SECONDS ?? "0") * 1000,
+    );
+
+    // Verify GitHub webhook signature against the current and previous secrets
+    const matchedSecret = await verifyWebhookSignature(
+      secrets,
+      bodyStr,
+      signature,
+    );
+    if (!matchedSecret) {
+      // Without a mapped secret, the delivery most likely comes from a hook that has not been registered
+      const unknownSource = secretSource.scope === "global";
+      console.error(
+        unknownSource ? "Unknown webhook source" : "Invalid signature",
+        {
+          delivery_id: githubDelivery,
+          repository: unverifiedPayload?.repository?.full_name,
+          organization: unverifiedPayload?.organization?.login,
+          secret_scope: secretSource.scope,
+          secret_versions: secrets.map((secret) => secret.version),
+        },
+      );
       return {
         statusCode: 401,
-        body: JSON.stringify({ message: "Invalid signature" }),
+        body: JSON.stringify({
+          message: unknownSource
+            ? "Invalid signature: no secret is registered for the organization or repository of this webhook, and the global secret does not match"
+            : `Invalid signature: the signature does not match the secret registered for ${secretSource.scope} ${secretSource.key}`,
+        }),
       };
     }
+    console.log("Verified signature", {
+      delivery_id: githubDelivery,
+      secret_scope: secretSource.scope,
+      secret_key: secretSource.key,
+      secret: matchedSecret.label,
+      secret_version: matchedSecret.version,
+    });
 
     // Parse request body
     let parsedBody;
@@ -257,62 +228,59 @@ export const handler = async (event: any) => {
       };
     }
 
-    // Publish pull request event to SNS topic
-    if (githubEvent === "pull_request") {
-      await publishPullRequestEventToSnsTopic(githubDelivery, parsedBody);
+    // Skip deliveries that have already been processed, since GitHub redelivers webhooks
+    const deliveryTableName = process.env.DELIVERY_TABLE_NAME!;
+    if (!(await claimDelivery(deliveryTableName, githubDelivery))) {
+      console.log(`Skipping duplicate delivery: ${githubDelivery}`);
+      return {
+        statusCode: 200,
+        body: JSON.stringify({
+          message: "Duplicate delivery has already been processed",
+          eventType: githubEvent,
+          status: "duplicate",
+        }),
+      };
     }
 
-    // Log metadata separately
-    console.log("GitHub Webhook received:", {
-      event_type: githubEvent,
-      delivery_id: githubDelivery,
-      repository: parsedBody.repository?.full_name,
-      organization: parsedBody.organization?.login,
-      sender: parsedBody.sender?.login,
-    });
-
-    // Create structured data
-    const structuredData = {
-      action: parsedBody.action,
-      repository: parsedBody.repository
-        ? {
-            id: parsedBody.repository.id,
-            name: parsedBody.repository.name,
-            full_name: parsedBody.repository.full_name,
-          }
-        : null,
-      organization: parsedBody.organization
-        ? {
-            login: parsedBody.organization.login,
-            id: parsedBody.organization.id,
-          }
-        : null,
-      sender: parsedBody.sender
-        ? {
-            login: parsedBody.sender.login,
-            id: parsedBody.sender.id,
-          }
-        : null,
-      event_type: githubEvent,
-      delivery_id: githubDelivery,
-      payload: parsedBody,
-    };
+    try {
+      // Filtered deliveries are archived too, so that they can be replayed if the filter is loosened
+      const message = await archiveDelivery(
+        githubEvent,
+        githubDelivery,
+        parsedBody,
+      );
 
-    // Send structured data to Timestream
-    await sendToTimestream(
-      structuredData,
-      process.env.TIMESTREAM_DATABASE_NAME!,
-      process.env.TIMESTREAM_TABLE_NAME!,
-    );
+      // Acknowledge deliveries excluded by the ingestion filter without ingesting them
+      const filteredBy = evaluateIngestionFilter(
+        ingestionFilter,
+        githubEvent,
+        parsedBody,
+      );
+      if (filteredBy) {
+        console.log(`Filtered delivery ${githubDelivery} by ${filteredBy}`);
+        putMetric(
+          "FilteredDeliveries",
+          1,
+          "Count",
+          { EventType: githubEvent },
+          { Rule: filteredBy },
+        );
+        return {
+          statusCode: 200,
+          body: JSON.stringify({
+            message: "Webhook received but excluded by the ingestion filter",
+            eventType: githubEvent,
+            status: "filtered",
+          }),
+        };
+      }
 
-    // Return success response
-    return {
-      statusCode: 200,
-      body: JSON.stringify({
-        message: "Webhook received and processed successfully",
-        eventType: githubEvent,
-      }),
-    };
+      return await enqueueDelivery(message);
+    } catch (error) {
+      // Release the delivery so that a redelivery can be processed
+      await releaseDelivery(deliveryTableName, githubDelivery);
+      throw error;
+    }
   } catch (error: any) {
     // Log error
     console.error("Error processing webhook:", error);
@@ -0,0 +1,53 @@
+import { GetParameterCommand, SSMClient } from "@aws-sdk/client-ssm";
+import {
+  DEFAULT_HOOK_IP_RANGES,
+  parseIpRanges,
+} from "../common/github-ip-ranges";
+
+// Reload the ranges periodically so that warm Lambda containers pick up updates
+const CACHE_TTL_MILLISECONDS = 5 * 60 * 1000;
+
+const ssmClient = new SSMClient();
+
+let cachedRanges: { ranges: string[]; loadedAt: number } | undefined;
+
+/**
+ * Get the IP ranges GitHub delivers webhooks from
+ * The ranges are read from the SSM parameter kept up to date by the GitHub meta sync job.
+ * If the parameter cannot be read, the built-in ranges are used.
+ * @param parameterName SSM parameter name
+ * @returns CIDR ranges
+ */
+export async function getAllowedIpRanges(
+  parameterName: string,
+): Promise<string[]> {
+  if (
+    cachedRanges &&
+    Date.now() - cachedRanges.loadedAt < CACHE_TTL_MILLISECONDS
+  ) {
+    return cachedRanges.ranges;
+  }
+
+  let ranges = DEFAULT_HOOK_IP_RANGES;
+  try {
+    const response = await ssmClient.send(
+      new GetParameterCommand({ Name: parameterName }),
+    );
+    const parsed = parseIpRanges(response.Parameter?.Value ?? "");
+    if (parsed.length > 0) {
+      ranges = parsed;
+    } else {
+      console.warn(
+        `Parameter ${parameterName} has no IP ranges, using the built-in ranges`,
+      );
+    }
+  } catch (error) {
+    console.error(
+      `Error fetching IP ranges from ${parameterName}, using the built-in ranges:`,
+      error,
+    );
+  }
+
+  cachedRanges = { ranges, loadedAt: Date.now() };
+  return ranges;
+}
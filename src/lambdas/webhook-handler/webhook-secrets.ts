@@ -0,0 +1,210 @@
+import {
+  GetParameterCommand,
+  GetParametersByPathCommand,
+  ParameterVersionNotFound,
+  SSMClient,
+} from "@aws-sdk/client-ssm";
+import { Webhooks } from "@octokit/webhooks";
+
+// Reload the mapping periodically so that warm Lambda containers pick up added sources
+const MAPPING_CACHE_TTL_MILLISECONDS = 5 * 60 * 1000;
+
+const ssmClient = new SSMClient();
+
+let cachedMapping:
+  | { path: string; parameterNames: Map<string, string>; loadedAt: number }
+  | undefined;
+
+/**
+ * Parameter holding the secret of a webhook source
+ */
+export interface WebhookSecretSource {
+  /**
+   * "repository" or "organization" for a secret mapped to the source of the delivery, "global" for the fallback secret
+   */
+  scope: "repository" | "organization" | "global";
+  /**
+   * Repository full name or organization login the secret is mapped to
+   */
+  key?: string;
+  /**
+   * SSM parameter name
+   */
+  parameterName: string;
+}
+
+/**
+ * Load the names of the secrets mapped to webhook sources
+ * Secrets are stored as `<path>/repos/<owner>/<repo>` and `<path>/orgs/<organization>`.
+ * @param path SSM path of the mapped secrets
+ * @returns Lower-cased relative name (e.g. "orgs/octo-org") -> SSM parameter name
+ */
+async function loadSecretMapping(path: string): Promise<Map<string, string>> {
+  if (
+    cachedMapping &&
+    cachedMapping.path === path &&
+    Date.now() - cachedMapping.loadedAt < MAPPING_CACHE_TTL_MILLISECONDS
+  ) {
+    return cachedMapping.parameterNames;
+  }
+
+  const parameterNames = new Map<string, string>();
+  let nextToken: string | undefined;
+  do {
+    const response = await ssmClient.send(
+      new GetParametersByPathCommand({
+        Path: path,
+        Recursive: true,
+        NextToken: nextToken,
+      }),
+    );
+    for (const parameter of response.Parameters ?? []) {
+      const name = parameter.Name!;
+      parameterNames.set(
+        name.slice(path.length).replace(/^\//, "").toLowerCase(),
+        name,
+      );
+    }
+    nextToken = response.NextToken;
+  } while (nextToken);
+
+  cachedMapping = { path, parameterNames, loadedAt: Date.now() };
+  return parameterNames;
+}
+
+/**
+ * Find the secret parameter of the source of a delivery
+ * A secret mapped to the repository takes precedence over the one mapped to the organization.
+ * Deliveries from sources without a mapped secret are verified with the global secret.
+ * @param path SSM path of the mapped secrets
+ * @param globalParameterName SSM parameter name of the global secret
+ * @param payload Webhook payload, not verified yet
+ * @returns Secret parameter of the source
+ */
+export async function findWebhookSecretSource(
+  path: string,
+  globalParameterName: string,
+  payload: any,
+): Promise<WebhookSecretSource> {
+  const mapping = await loadSecretMapping(path);
+  const repository: string | undefined = payload?.repository?.full_name;
+  const organization: string | undefined = payload?.organization?.login;
+
+  const repositoryParameterName = repository
+    ? mapping.get(`repos/${repository.toLowerCase()}`)
+    : undefined;
+  if (repositoryParameterName) {
+    return {
+      scope: "repository",
+      key: repository,
+      parameterName: repositoryParameterName,
+    };
+  }
+
+  const organizationParameterName = organization
+    ? mapping.get(`orgs/${organization.toLowerCase()}`)
+    : undefined;
+  if (organizationParameterName) {
+    return {
+      scope: "organization",
+      key: organization,
+      parameterName: organizationParameterName,
+    };
+  }
+
+  return { scope: "global", parameterName: globalParameterName };
+}
+
+/**
+ * Webhook secret accepted for signature verification
+ */
+export interface WebhookSecret {
+  /**
+   * "current" for the latest version of the parameter, "previous" for the version before it
+   */
+  label: "current" | "previous";
+  /**
+   * Version of the SSM parameter
+   */
+  version: number;
+  /**
+   * Secret value. Never log it.
+   */
+  value: string;
+}
+
+/**
+ * Get the webhook secrets accepted for signature verification
+ * The previous version of the parameter is accepted until the grace period after the latest version was stored has elapsed,
+ * so that deliveries signed with the previous secret are still accepted while the secret is updated on GitHub.
+ * @param parameterName SSM parameter name
+ * @param gracePeriodMilliseconds Grace period during which the previous secret is accepted
+ * @returns The current secret, followed by the previous secret if it is still accepted
+ */
+export async function getWebhookSecrets(
+  parameterName: string,
+  gracePeriodMilliseconds: number,
+): Promise<WebhookSecret[]> {
+  const current = await ssmClient.send(
+    new GetParameterCommand({ Name: parameterName, WithDecryption: true }),
+  );
+  const secrets: WebhookSecret[] = [
+    {
+      label: "current",
+      version: current.Parameter!.Version!,
+      value: current.Parameter!.Value!,
+    },
+  ];
+
+  const rotatedAt = current.Parameter!.LastModifiedDate?.getTime() ?? 0;
+  const previousVersion = current.Parameter!.Version! - 1;
+  if (previousVersion < 1 || Date.now() - rotatedAt > gracePeriodMilliseconds) {
+    return secrets;
+  }
+
+  try {
+    const previous = await ssmClient.send(
+      new GetParameterCommand({
+        Name: `${parameterName}:${previousVersion}`,
+        WithDecryption: true,
+      }),
+    );
+    secrets.push({
+      label: "previous",
+      version: previousVersion,
+      value: previous.Parameter!.Value!,
+    });
+  } catch (error) {
+    if (!(error instanceof ParameterVersionNotFound)) {
+      throw error;
+    }
+    console.warn(
+      `Previous version ${previousVersion} of ${parameterName} was not found`,
+    );
+  }
+  return secrets;
+}
+
+/**
+ * Verify the signature of a webhook delivery against each accepted secret
+ * @param secrets Accepted secrets, in order of preference
+ * @param body Raw request body
+ * @param signature X-Hub-Signature-256 header
+ * @returns The secret the signature matched, or undefined if it matched none
+ */
+export async function verifyWebhookSignature(
+  secrets: WebhookSecret[],
+  body: string,
+  signature: string | undefined,
+): Promise<WebhookSecret | undefined> {
+  if (!signature) {
+    return undefined;
+  }
+  for (const secret of secrets) {
+    const webhooks = new Webhooks({ secret: secret.value });
+    if (await webhooks.verify(body, signature)) {
+      return secret;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,79 @@
+/**
+ * Kind of the account behind an activity
+ * * `human`: a user account
+ * * `bot`: a GitHub App bot account (e.g. `dependabot[bot]`) or a known service account
+ * * `app`: a user account acting through a GitHub App
+ * * `unknown`: no account, or an account of another type (e.g. an organization)
+ */
+export type ActorKind = "human" | "bot" | "app" | "unknown";
+
+/**
+ * Account fields used for the classification
+ */
+export interface ActorAccount {
+  login?: string | null;
+  type?: string | null;
+}
+
+let knownServiceAccounts: Set<string> | undefined;
+
+/**
+ * Get the known service accounts configured on the stack
+ * @returns Lower-cased logins of the `KNOWN_SERVICE_ACCOUNTS` environment variable (comma-separated)
+ */
+function getKnownServiceAccounts(): Set<string> {
+  if (!knownServiceAccounts) {
+    knownServiceAccounts = new Set(
+      (process.env.KNOWN_SERVICE_ACCOUNTS ?? "")
+        .split(",")
+        .map((login) => login.trim().toLowerCase())
+        .filter((login) => login.length > 0),
+    );
+  }
+  return knownServiceAccounts;
+}
+
+/**
+ * Classify the account behind an activity
+ * @param account User object of the payload (e.g. `sender` or `pull_request.user`)
+ * @param performedViaGitHubApp true if the activity was performed through a GitHub App (`performed_via_github_app`)
+ * @returns Kind of the account
+ */
+export function classifyActor(
+  account: ActorAccount | null | undefined,
+  performedViaGitHubApp = false,
+): ActorKind {
+  if (!account?.login) {
+    return "unknown";
+  }
+  if (
+    account.type === "Bot" ||
+    account.login.endsWith("[bot]") ||
+    getKnownServiceAccounts().has(account.login.toLowerCase())
+  ) {
+    return "bot";
+  }
+  if (
+    account.type !== undefined &&
+    account.type !== null &&
+    account.type !== "User"
+  ) {
+    return "unknown";
+  }
+  return performedViaGitHubApp ? "app" : "human";
+}
+
+/**
+ * Check whether the sender performed the activity of the payload through a GitHub App
+ * @param payload GitHub webhook payload
+ * @returns true if the comment, or the issue that was opened, has `performed_via_github_app`
+ */
+export function isPerformedViaGitHubApp(payload: any): boolean {
+  if (payload?.comment) {
+    return Boolean(payload.comment.performed_via_github_app);
+  }
+  return (
+    payload?.action === "opened" &&
+    Boolean(payload?.issue?.performed_via_github_app)
+  );
+}
@@ -0,0 +1,199 @@
+import { SNSClient, PublishCommand } from "@aws-sdk/client-sns";
+import { getMeasures } from "./measures";
+import { recordPullRequestLifecycle } from "./pr-lifecycle";
+import { sendToTimestream, toWebhookData } from "./timestream";
+import {
+  ACTIVITY_MESSAGE_VERSION,
+  ActivityMessage,
+  toMessageAttributes,
+} from "../common/activity-message";
+import { releaseDelivery } from "../common/deduplication";
+import { loadPseudonymizer, savePseudonyms } from "../common/pseudonymization";
+import { getArchivedDelivery } from "../common/webhook-archive";
+import { WebhookQueueMessage } from "../common/webhook-queue";
+
+// Initialize AWS SDK clients
+const snsClient = new SNSClient({ region: process.env.AWS_REGION });
+
+/**
+ * Build the message published to the SNS topic for a delivery
+ * Pull requests of organizations and completed workflow runs are enriched with data fetched from the GitHub API.
+ * @param eventType Value of the X-GitHub-Event header
+ * @param deliveryId Value of the X-GitHub-Delivery header
+ * @param data Payload of the delivery
+ * @returns Message, or undefined if the delivery is not published
+ */
+function toActivityMessage(
+  eventType: string,
+  deliveryId: string,
+  data: any,
+): ActivityMessage | undefined {
+  if (
+    eventType === "pull_request" &&
+    "number" in data &&
+    "action" in data &&
+    "organization" in data &&
+    "login" in data.organization &&
+    "repository" in data &&
+    "name" in data.repository
+  ) {
+    return {
+      version: ACTIVITY_MESSAGE_VERSION,
+      deliveryId,
+      eventType: "pull_request",
+      action: data.action,
+      number: data.number,
+      organization: data.organization.login,
+      repository: data.repository.name,
+    };
+  }
+  if (
+    eventType === "workflow_run" &&
+    data.action === "completed" &&
+    data.workflow_run &&
+    data.repository
+  ) {
+    return {
+      version: ACTIVITY_MESSAGE_VERSION,
+      deliveryId,
+      eventType: "workflow_run",
+      action: data.action,
+      runId: data.workflow_run.id,
+      runAttempt: data.workflow_run.run_attempt ?? 1,
+      workflowName: data.workflow_run.name || undefined,
+      organization: data.repository.owner.login,
+      repository: data.repository.name,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Publish a message to the SNS topic, with attributes subscribers can filter on
+ * @param message Message
+ */
+async function publishActivityMessage(message: ActivityMessage) {
+  await snsClient.send(
+    new PublishCommand({
+      Message: JSON.stringify(message),
+      MessageAttributes: toMessageAttributes(message),
+      TopicArn: process.env.SNS_TOPIC_ARN,
+    }),
+  );
+}
+
+/**
+ * Write the measures of a delivery to Timestream, then publish it to SNS
+ * @param message Message of the webhook queue
+ */
+async function processDelivery(message: WebhookQueueMessage) {
+  const delivery = await getArchivedDelivery(
+    process.env.ARCHIVE_BUCKET_NAME!,
+    message.archiveKey,
+  );
+  const githubEvent = delivery.eventType;
+  const githubDelivery = delivery.deliveryId;
+  const parsedBody = delivery.payload;
+  const receivedAt = Date.parse(delivery.receivedAt);
+
+  // Convert the payload to Timestream measures
+  const pseudonymizer = await loadPseudonymizer();
+  const measures = getMeasures(githubEvent, parsedBody, { pseudonymizer });
+  if (measures) {
+    // Create structured data
+    const structuredData = toWebhookData(
+      githubEvent,
+      githubDelivery,
+      parsedBody,
+    );
+
+    // Send structured data to Timestream
+    await sendToTimestream(
+      structuredData,
+      measures,
+      process.env.TIMESTREAM_DATABASE_NAME!,
+      process.env.TIMESTREAM_TABLE_NAME!,
+      {
+        time: receivedAt,
+        ingestedAt: receivedAt,
+        pseudonymizer,
+      },
+    );
+
+    // Record the tokens for authorized reverse lookup
+    if (pseudonymizer) {
+      await savePseudonyms(process.env.PSEUDONYM_TABLE_NAME, pseudonymizer);
+    }
+  } else {
+    console.warn("No measure extractor registered for event:", {
+      event_type: githubEvent,
+      action: parsedBody.action,
+      delivery_id: githubDelivery,
+    });
+  }
+
+  // Publish events enriched from the GitHub API to the SNS topic.
+  // Publishing last keeps a delivery retried after a failed write from being enriched twice.
+  const activityMessage = toActivityMessage(
+    githubEvent,
+    githubDelivery,
+    parsedBody,
+  );
+  if (activityMessage) {
+    await publishActivityMessage(activityMessage);
+  }
+
+  // Derive the lifecycle of a closed pull request from the events stored so far.
+  // A failure is only logged, so that the delivery is not processed again because of it.
+  if (githubEvent === "pull_request" && parsedBody.action === "closed") {
+    try {
+      await recordPullRequestLifecycle(githubDelivery, parsedBody, receivedAt);
+    } catch (error) {
+      console.error("Failed to record the pull request lifecycle:", {
+        delivery_id: githubDelivery,
+        error,
+      });
+    }
+  }
+}
+
+/**
+ * Check whether a failed message will be moved to the dead-letter queue instead of being retried
+ * @param record SQS record
+ * @returns true if the message has been received as many times as the queue allows
+ */
+function isLastAttempt(record: any): boolean {
+  const maxReceiveCount = Number(process.env.WEBHOOK_QUEUE_MAX_RECEIVE_COUNT);
+  const receiveCount = Number(record.attributes?.ApproximateReceiveCount);
+  return maxReceiveCount > 0 && receiveCount >= maxReceiveCount;
+}
+
+/**
+ * Lambda function called from the webhook queue.
+ * Failed messages are reported individually, so that only they are retried and eventually moved to the dead-letter queue.
+ */
+export const handler = async (event: any) => {
+  const batchItemFailures: { itemIdentifier: string }[] = [];
+
+  for (const record of event.Records || []) {
+    let message: WebhookQueueMessage | undefined;
+    try {
+      message = JSON.parse(record.body) as WebhookQueueMessage;
+      console.log("Processing delivery:", message);
+      await processDelivery(message);
+    } catch (error) {
+      console.error(`Error processing message ${record.messageId}:`, error);
+      batchItemFailures.push({ itemIdentifier: record.messageId });
+
+      // Release the delivery claimed by the webhook handler, so that a redelivery from GitHub is processed again
+      if (message?.deliveryId && isLastAttempt(record)) {
+        await releaseDelivery(
+          process.env.DELIVERY_TABLE_NAME!,
+          message.deliveryId,
+        );
+      }
+    }
+  }
+
+  return { batchItemFailures };
+};
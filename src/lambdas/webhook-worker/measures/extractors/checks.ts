@@ -0,0 +1,82 @@
+import { formatDuration } from "../format";
+import { defineMeasureExtractor } from "../registry";
+
+// https://docs.github.com/en/webhooks/webhook-events-and-payloads#check_run
+export const checkRunExtractor = defineMeasureExtractor({
+  event: "check_run",
+  measureName: "check_run",
+  columns: {
+    check_run_action: "VARCHAR",
+    check_run_id: "BIGINT",
+    check_run_name: "VARCHAR",
+    check_run_head_sha: "VARCHAR",
+    check_run_status: "VARCHAR",
+    check_run_conclusion: "VARCHAR",
+    check_run_app_slug: "VARCHAR",
+    check_run_check_suite_id: "BIGINT",
+    check_run_started_at: "TIMESTAMP",
+    check_run_completed_at: "TIMESTAMP",
+    check_run_run_duration: "BIGINT",
+  },
+  eventTime: (payload) =>
+    payload.check_run.completed_at ?? payload.check_run.started_at,
+  extract: (payload) => {
+    const checkRun = payload.check_run;
+    return {
+      check_run_action: payload.action,
+      check_run_id: checkRun.id,
+      check_run_name: checkRun.name,
+      check_run_head_sha: checkRun.head_sha,
+      check_run_status: checkRun.status,
+      check_run_conclusion: checkRun.conclusion,
+      check_run_app_slug: checkRun.app?.slug,
+      check_run_check_suite_id: checkRun.check_suite?.id,
+      check_run_started_at: checkRun.started_at,
+      check_run_completed_at: checkRun.completed_at,
+      check_run_run_duration: formatDuration(
+        checkRun.started_at,
+        checkRun.completed_at,
+      ),
+    };
+  },
+});
+
+// https://docs.github.com/en/webhooks/webhook-events-and-payloads#check_suite
+export const checkSuiteExtractor = defineMeasureExtractor({
+  event: "check_suite",
+  measureName: "check_suite",
+  columns: {
+    check_suite_action: "VARCHAR",
+    check_suite_id: "BIGINT",
+    check_suite_head_sha: "VARCHAR",
+    check_suite_created_at: "TIMESTAMP",
+    check_suite_updated_at: "TIMESTAMP",
+    check_suite_status: "VARCHAR",
+    check_suite_conclusion: "VARCHAR",
+    check_suite_head_branch: "VARCHAR",
+    check_suite_app_slug: "VARCHAR",
+    check_suite_check_runs_length: "BIGINT",
+    check_suite_run_duration: "BIGINT",
+  },
+  eventTime: (payload) => payload.check_suite.updated_at,
+  extract: (payload) => {
+    const checkSuite = payload.check_suite;
+    return {
+      check_suite_action: payload.action,
+      check_suite_id: checkSuite.id,
+      check_suite_head_sha: checkSuite.head_sha,
+      check_suite_created_at: checkSuite.created_at,
+      check_suite_updated_at: checkSuite.updated_at,
+      check_suite_status: checkSuite.status,
+      check_suite_conclusion: checkSuite.conclusion,
+      check_suite_head_branch: checkSuite.head_branch,
+      check_suite_app_slug: checkSuite.app?.slug,
+      check_suite_check_runs_length: checkSuite.latest_check_runs_count,
+      // A completed suite is not updated anymore, so updated_at marks its end
+      check_suite_run_duration:
+        checkSuite.status === "completed"
+          ? formatDuration(checkSuite.created_at, checkSuite.updated_at)
+          : undefined,
+    };
+  },
+});
@@ -0,0 +1,63 @@
+import { defineMeasureExtractor, prefixColumns, prefixRow } from "../registry";
+import type { MeasureColumns, MeasureRow, WebhookPayload } from "../types";
+
+type CommentObject =
+  | WebhookPayload<"issue_comment">["comment"]
+  | WebhookPayload<"pull_request_review_comment">["comment"]
+  | WebhookPayload<"pull_request_review_thread">["thread"]["comments"][number]
+  | WebhookPayload<"commit_comment">["comment"];
+
+/**
+ * Columns of the comment object
+ * Based on:
+ * * https://docs.github.com/en/webhooks/webhook-events-and-payloads#issue_comment
+ * * https://docs.github.com/en/webhooks/webhook-events-and-payloads#pull_request_review_comment
+ * * https://docs.github.com/en/webhooks/webhook-events-and-payloads#commit_comment
+ */
+export const commentObjectColumns: MeasureColumns = {
+  cmt_id: "BIGINT",
+  cmt_body_length: "BIGINT",
+  cmt_created_at: "TIMESTAMP",
+  cmt_updated_at: "TIMESTAMP",
+  cmt_author_association: "VARCHAR",
+  cmt_user_id: "BIGINT",
+  cmt_user_login: "VARCHAR",
+};
+
+/**
+ * Extract values of the comment object
+ * @param comment Comment object of the payload
+ * @returns Values of `commentObjectColumns`
+ */
+export function commentObjectValues(comment: CommentObject): MeasureRow {
+  return {
+    cmt_id: comment.id,
+    cmt_body_length: comment.body ? comment.body.length : 0,
+    cmt_created_at: comment.created_at,
+    cmt_updated_at: comment.updated_at,
+    cmt_author_association: comment.author_association,
+    cmt_user_id: comment.user?.id,
+    cmt_user_login: comment.user?.login,
+  };
+}
+
+// https://docs.github.com/en/webhooks/webhook-events-and-payloads#commit_comment
+export const commitCommentExtractor = defineMeasureExtractor({
+  event: "commit_comment",
+  measureName: "commit_comment",
+  columns: {
+    commit_cmt_action: "VARCHAR",
+    commit_cmt_target: "VARCHAR",
+    commit_cmt_commit_id: "VARCHAR",
+    commit_cmt_path: "VARCHAR",
+    ...prefixColumns("commit_cmt_", commentObjectColumns),
+  },
+  eventTime: (payload) => payload.comment.updated_at,
+  extract: (payload) => ({
+    commit_cmt_action: payload.action,
+    commit_cmt_target: "commit",
+    commit_cmt_commit_id: payload.comment.commit_id,
+    commit_cmt_path: payload.comment.path || undefined,
+    ...prefixRow("commit_cmt_", commentObjectValues(payload.comment)),
+  }),
+});
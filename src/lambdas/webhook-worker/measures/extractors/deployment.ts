@@ -0,0 +1,101 @@
+import { formatDuration } from "../format";
+import { defineMeasureExtractor, prefixColumns, prefixRow } from "../registry";
+import type { MeasureColumns, MeasureRow, WebhookPayload } from "../types";
+
+type DeploymentObject =
+  | WebhookPayload<"deployment">["deployment"]
+  | WebhookPayload<"deployment_status">["deployment"];
+
+/**
+ * Columns of the deployment object
+ * Based on:
+ * * https://docs.github.com/en/webhooks/webhook-events-and-payloads#deployment
+ * * https://docs.github.com/en/webhooks/webhook-events-and-payloads#deployment_status
+ */
+const deploymentObjectColumns: MeasureColumns = {
+  deploy_id: "BIGINT",
+  deploy_environment: "VARCHAR",
+  deploy_sha: "VARCHAR",
+  deploy_ref: "VARCHAR",
+  deploy_task: "VARCHAR",
+  deploy_created_at: "TIMESTAMP",
+  deploy_updated_at: "TIMESTAMP",
+  deploy_production_environment: "BOOLEAN",
+  deploy_transient_environment: "BOOLEAN",
+  deploy_creator_id: "BIGINT",
+  deploy_creator_login: "VARCHAR",
+};
+
+/**
+ * Extract values of the deployment object
+ * @param deployment Deployment object of the payload
+ * @returns Values of `deploymentObjectColumns`
+ */
+function deploymentObjectValues(deployment: DeploymentObject): MeasureRow {
+  return {
+    deploy_id: deployment.id,
+    deploy_environment: deployment.environment,
+    deploy_sha: deployment.sha,
+    deploy_ref: deployment.ref,
+    deploy_task: deployment.task,
+    deploy_created_at: deployment.created_at,
+    deploy_updated_at: deployment.updated_at,
+    deploy_production_environment: deployment.production_environment,
+    deploy_transient_environment: deployment.transient_environment,
+    deploy_creator_id: deployment.creator?.id,
+    deploy_creator_login: deployment.creator?.login,
+  };
+}
+
+// https://docs.github.com/en/webhooks/webhook-events-and-payloads#deployment
+export const deploymentExtractor = defineMeasureExtractor({
+  event: "deployment",
+  measureName: "deployment",
+  columns: {
+    deploy_action: "VARCHAR",
+    ...prefixColumns("deploy_", deploymentObjectColumns),
+  },
+  eventTime: (payload) => payload.deployment.updated_at,
+  extract: (payload) => ({
+    deploy_action: payload.action,
+    ...prefixRow("deploy_", deploymentObjectValues(payload.deployment)),
+  }),
+});
+
+// https://docs.github.com/en/webhooks/webhook-events-and-payloads#deployment_status
+export const deploymentStatusExtractor = defineMeasureExtractor({
+  event: "deployment_status",
+  measureName: "deployment_status",
+  columns: {
+    deploy_st_action: "VARCHAR",
+    deploy_st_id: "BIGINT",
+    deploy_st_state: "VARCHAR",
+    deploy_st_created_at: "TIMESTAMP",
+    deploy_st_updated_at: "TIMESTAMP",
+    deploy_st_environment: "VARCHAR",
+    deploy_st_creator_id: "BIGINT",
+    deploy_st_creator_login: "VARCHAR",
+    deploy_st_since_deploy_created: "BIGINT",
+    ...prefixColumns("deploy_st_", deploymentObjectColumns),
+  },
+  eventTime: (payload) => payload.deployment_status.updated_at,
+  extract: (payload) => {
+    const deploymentStatus = payload.deployment_status;
+    return {
+      deploy_st_action: payload.action,
+      deploy_st_id: deploymentStatus.id,
+      deploy_st_state: deploymentStatus.state,
+      deploy_st_created_at: deploymentStatus.created_at,
+      deploy_st_updated_at: deploymentStatus.updated_at,
+      deploy_st_environment: deploymentStatus.environment || undefined,
+      deploy_st_creator_id: deploymentStatus.creator?.id,
+      deploy_st_creator_login: deploymentStatus.creator?.login,
+      // Time from the deployment request to this state transition
+      deploy_st_since_deploy_created: formatDuration(
+        payload.deployment.created_at,
+        deploymentStatus.created_at,
+      ),
+      ...prefixRow("deploy_st_", deploymentObjectValues(payload.deployment)),
+    };
+  },
+});
@@ -0,0 +1,37 @@
+import { checkRunExtractor, checkSuiteExtractor } from "./checks";
+import { commitCommentExtractor } from "./comment";
+import { deploymentExtractor, deploymentStatusExtractor } from "./deployment";
+import { issueCommentExtractor, issuesExtractor } from "./issues";
+import {
+  pullRequestExtractor,
+  pullRequestReviewCommentExtractor,
+  pullRequestReviewExtractor,
+  pullRequestReviewThreadExtractor,
+} from "./pull-request";
+import { pushCommitExtractor, pushExtractor } from "./push";
+import { createExtractor, deleteExtractor, releaseExtractor } from "./release";
+import { workflowJobExtractor, workflowRunExtractor } from "./workflow";
+
+/**
+ * Measure extractors registered by default
+ */
+export const builtinMeasureExtractors = [
+  pushExtractor,
+  pushCommitExtractor,
+  pullRequestExtractor,
+  pullRequestReviewExtractor,
+  pullRequestReviewCommentExtractor,
+  pullRequestReviewThreadExtractor,
+  issuesExtractor,
+  issueCommentExtractor,
+  commitCommentExtractor,
+  workflowRunExtractor,
+  workflowJobExtractor,
+  checkRunExtractor,
+  checkSuiteExtractor,
+  deploymentExtractor,
+  deploymentStatusExtractor,
+  releaseExtractor,
+  createExtractor,
+  deleteExtractor,
+];
@@ -0,0 +1,121 @@
+import {
+  defineMeasureExtractor,
+  indexedColumns,
+  prefixColumns,
+  prefixRow,
+} from "../registry";
+import type { MeasureColumns, MeasureRow, WebhookPayload } from "../types";
+import { commentObjectColumns, commentObjectValues } from "./comment";
+
+type IssueObject =
+  WebhookPayload<"issues">["issue"] | WebhookPayload<"issue_comment">["issue"];
+
+/**
+ * Columns of the issue object
+ * Based on:
+ * * https://docs.github.com/en/webhooks/webhook-events-and-payloads#issues
+ */
+const issueObjectColumns: MeasureColumns = {
+  issue_assignee_login: "VARCHAR",
+  issue_assignee_id: "BIGINT",
+  issue_assignees_length: "BIGINT",
+  ...indexedColumns("issue_assignees_", 5, { login: "VARCHAR", id: "BIGINT" }),
+  issue_author_association: "VARCHAR",
+  issue_closed_at: "TIMESTAMP",
+  issue_comments: "BIGINT",
+  issue_created_at: "TIMESTAMP",
+  issue_draft: "BOOLEAN",
+  issue_id: "BIGINT",
+  issue_labels_length: "BIGINT",
+  ...indexedColumns("issue_labels_", 5, {
+    name: "VARCHAR",
+    id: "BIGINT",
+    default: "BOOLEAN",
+  }),
+  issue_locked: "BOOLEAN",
+  issue_number: "BIGINT",
+  issue_state: "VARCHAR",
+  issue_updated_at: "TIMESTAMP",
+  issue_user_id: "BIGINT",
+  issue_user_login: "VARCHAR",
+};
+
+/**
+ * Extract values of the issue object
+ * @param issue Issue object of the payload
+ * @returns Values of `issueObjectColumns`
+ */
+function issueObjectValues(issue: IssueObject): MeasureRow {
+  const assignees = issue.assignees || [];
+  const labels = issue.labels || [];
+  const row: MeasureRow = {
+    issue_assignee_login: issue.assignee?.login,
+    issue_assignee_id: issue.assignee?.id,
+    issue_assignees_length: assignees.length,
+    issue_author_association: issue.author_association,
+    issue_closed_at: issue.closed_at,
+    issue_comments: issue.comments,
+    issue_created_at: issue.created_at,
+    issue_draft: issue.draft,
+    issue_id: issue.id,
+    issue_labels_length: labels.length,
+    issue_locked: issue.locked,
+    issue_number: issue.number,
+    issue_state: issue.state,
+    issue_updated_at: issue.updated_at,
+    issue_user_id: issue.user?.id,
+    issue_user_login: issue.user?.login,
+  };
+  for (let i = 0; i < Math.min(assignees.length, 5); i++) {
+    row[`issue_assignees_${i}_login`] = assignees[i]?.login;
+    row[`issue_assignees_${i}_id`] = assignees[i]?.id;
+  }
+  for (let i = 0; i < Math.min(labels.length, 5); i++) {
+    row[`issue_labels_${i}_name`] = labels[i]?.name;
+    row[`issue_labels_${i}_id`] = labels[i]?.id;
+    row[`issue_labels_${i}_default`] = labels[i]?.default;
+  }
+  return row;
+}
+
+// https://docs.github.com/en/webhooks/webhook-events-and-payloads#issues
+export const issuesExtractor = defineMeasureExtractor({
+  event: "issues",
+  measureName: "issue",
+  columns: {
+    issues_action: "VARCHAR",
+    issues_assignee_login: "VARCHAR",
+    issues_assignee_id: "BIGINT",
+    ...prefixColumns("issues_", issueObjectColumns),
+  },
+  eventTime: (payload) => payload.issue.updated_at,
+  extract: (payload) => ({
+    issues_action: payload.action,
+    issues_assignee_login:
+      "assignee" in payload ? payload.assignee?.login : undefined,
+    issues_assignee_id:
+      "assignee" in payload ? payload.assignee?.id : undefined,
+    ...prefixRow("issues_", issueObjectValues(payload.issue)),
+  }),
+});
+
+// https://docs.github.com/en/webhooks/webhook-events-and-payloads#issue_comment
+export const issueCommentExtractor = defineMeasureExtractor({
+  event: "issue_comment",
+  measureName: "issue_comment",
+  columns: {
+    issue_cmt_action: "VARCHAR",
+    issue_cmt_target: "VARCHAR",
+    issue_cmt_target_number: "BIGINT",
+    ...prefixColumns("issue_cmt_", commentObjectColumns),
+    ...prefixColumns("issue_cmt_", issueObjectColumns),
+  },
+  eventTime: (payload) => payload.comment.updated_at,
+  extract: (payload) => ({
+    issue_cmt_action: payload.action,
+    issue_cmt_target: payload.issue.pull_request ? "pull_request" : "issue",
+    issue_cmt_target_number: payload.issue.number,
+    ...prefixRow("issue_cmt_", commentObjectValues(payload.comment)),
+    ...prefixRow("issue_cmt_", issueObjectValues(payload.issue)),
+  }),
+});
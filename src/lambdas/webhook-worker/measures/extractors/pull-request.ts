@@ -0,0 +1,223 @@
+import {
+  defineMeasureExtractor,
+  indexedColumns,
+  prefixColumns,
+  prefixRow,
+} from "../registry";
+import type { MeasureColumns, MeasureRow, WebhookPayload } from "../types";
+import { commentObjectColumns, commentObjectValues } from "./comment";
+import { classifyActor } from "../../actor-kind";
+
+type PullRequestObject =
+  | WebhookPayload<"pull_request">["pull_request"]
+  | WebhookPayload<"pull_request_review">["pull_request"]
+  | WebhookPayload<"pull_request_review_comment">["pull_request"]
+  | WebhookPayload<"pull_request_review_thread">["pull_request"];
+
+/**
+ * Columns of the pull_request object
+ * Based on:
+ * * https://docs.github.com/en/webhooks/webhook-events-and-payloads#pull_request
+ * * https://docs.github.com/en/webhooks/webhook-events-and-payloads#pull_request_review_comment
+ */
+const pullRequestObjectColumns: MeasureColumns = {
+  pr_author_association: "VARCHAR",
+  pr_base_label: "VARCHAR",
+  pr_base_ref: "VARCHAR",
+  pr_base_sha: "VARCHAR",
+  pr_created_at: "TIMESTAMP",
+  pr_draft: "BOOLEAN",
+  pr_id: "BIGINT",
+  pr_locked: "BOOLEAN",
+  pr_number: "BIGINT",
+  pr_state: "VARCHAR",
+  pr_update_at: "TIMESTAMP",
+  pr_commits: "BIGINT",
+  pr_rv_comments: "BIGINT",
+  pr_assignee_id: "BIGINT",
+  pr_assignee_login: "VARCHAR",
+  pr_assignees_length: "BIGINT",
+  ...indexedColumns("pr_assignees_", 5, { id: "BIGINT", login: "VARCHAR" }),
+  pr_auto_merge_merge_method: "VARCHAR",
+  pr_base_user_id: "BIGINT",
+  pr_base_user_login: "VARCHAR",
+  pr_closed_at: "TIMESTAMP",
+  ...indexedColumns("pr_labels_", 5, { name: "VARCHAR" }),
+  pr_merged: "BOOLEAN",
+  pr_merged_at: "TIMESTAMP",
+  pr_user_id: "BIGINT",
+  pr_user_login: "VARCHAR",
+  pr_user_kind: "VARCHAR",
+};
+
+/**
+ * Extract values of the pull_request object
+ * @param pullRequest Pull request object of the payload
+ * @returns Values of `pullRequestObjectColumns`
+ */
+function pullRequestObjectValues(pullRequest: PullRequestObject): MeasureRow {
+  const row: MeasureRow = {
+    pr_author_association: pullRequest.author_association,
+    pr_base_label: pullRequest.base.label,
+    pr_base_ref: pullRequest.base.ref,
+    pr_base_sha: pullRequest.base.sha,
+    pr_created_at: pullRequest.created_at,
+    pr_draft: pullRequest.draft,
+    pr_id: pullRequest.id,
+    pr_locked: pullRequest.locked,
+    pr_number: pullRequest.number,
+    pr_state: pullRequest.state,
+    pr_update_at: pullRequest.updated_at,
+    pr_assignee_id: pullRequest.assignee?.id,
+    pr_assignee_login: pullRequest.assignee?.login,
+    pr_auto_merge_merge_method: pullRequest.auto_merge?.merge_method,
+    pr_base_user_id: pullRequest.base.user?.id,
+    pr_base_user_login: pullRequest.base.user?.login,
+    pr_closed_at: pullRequest.closed_at,
+    pr_merged_at: pullRequest.merged_at,
+    pr_user_id: pullRequest.user?.id,
+    pr_user_login: pullRequest.user?.login,
+    pr_user_kind: classifyActor(pullRequest.user),
+  };
+
+  // Only the pull_request event carries the detailed pull request object
+  if ("commits" in pullRequest) {
+    row.pr_commits = pullRequest.commits;
+    row.pr_rv_comments = pullRequest.review_comments;
+    row.pr_merged = pullRequest.merged;
+  }
+
+  if (pullRequest.assignees) {
+    const assignees = pullRequest.assignees;
+    row.pr_assignees_length = assignees.length;
+    for (let i = 0; i < Math.min(assignees.length, 5); i++) {
+      row[`pr_assignees_${i}_id`] = assignees[i]?.id;
+      row[`pr_assignees_${i}_login`] = assignees[i]?.login;
+    }
+  }
+
+  for (let i = 0; i < Math.min(pullRequest.labels.length, 5); i++) {
+    row[`pr_labels_${i}_name`] = pullRequest.labels[i].name;
+  }
+
+  return row;
+}
+
+// https://docs.github.com/en/webhooks/webhook-events-and-payloads#pull_request
+export const pullRequestExtractor = defineMeasureExtractor({
+  event: "pull_request",
+  measureName: "pull_request",
+  columns: {
+    pr_number: "BIGINT",
+    pr_action: "VARCHAR",
+    pr_assignee_login: "VARCHAR",
+    pr_assignee_id: "BIGINT",
+    ...prefixColumns("pr_", pullRequestObjectColumns),
+  },
+  eventTime: (payload) => payload.pull_request.updated_at,
+  extract: (payload) => ({
+    pr_number: payload.number,
+    pr_action: payload.action,
+    pr_assignee_login:
+      "assignee" in payload ? payload.assignee?.login : undefined,
+    pr_assignee_id: "assignee" in payload ? payload.assignee?.id : undefined,
+    ...prefixRow("pr_", pullRequestObjectValues(payload.pull_request)),
+  }),
+});
+
+// https://docs.github.com/en/webhooks/webhook-events-and-payloads#pull_request_review
+export const pullRequestReviewExtractor = defineMeasureExtractor({
+  event: "pull_request_review",
+  measureName: "pull_request",
+  columns: {
+    pr_rv_action: "VARCHAR",
+    pr_rv_review_author_association: "VARCHAR",
+    pr_rv_review_commit_id: "VARCHAR",
+    pr_rv_review_id: "VARCHAR",
+    pr_rv_review_state: "VARCHAR",
+    pr_rv_review_submitted_at: "TIMESTAMP",
+    pr_rv_review_user_id: "BIGINT",
+    pr_rv_review_user_login: "VARCHAR",
+    ...prefixColumns("pr_rv_", pullRequestObjectColumns),
+  },
+  eventTime: (payload) => payload.review.submitted_at,
+  extract: (payload) => ({
+    pr_rv_action: payload.action,
+    pr_rv_review_author_association: payload.review.author_association,
+    pr_rv_review_commit_id: payload.review.commit_id,
+    pr_rv_review_id: String(payload.review.id),
+    pr_rv_review_state: payload.review.state,
+    pr_rv_review_submitted_at: payload.review.submitted_at,
+    pr_rv_review_user_id: payload.review.user?.id,
+    pr_rv_review_user_login: payload.review.user?.login,
+    ...prefixRow("pr_rv_", pullRequestObjectValues(payload.pull_request)),
+  }),
+});
+
+// https://docs.github.com/en/webhooks/webhook-events-and-payloads#pull_request_review_comment
+export const pullRequestReviewCommentExtractor = defineMeasureExtractor({
+  event: "pull_request_review_comment",
+  measureName: "pull_request_review_comment",
+  columns: {
+    pr_rv_cmt_action: "VARCHAR",
+    pr_rv_cmt_target: "VARCHAR",
+    pr_rv_cmt_target_number: "BIGINT",
+    pr_rv_cmt_review_id: "BIGINT",
+    pr_rv_cmt_in_reply_to_id: "BIGINT",
+    pr_rv_cmt_path: "VARCHAR",
+    pr_rv_cmt_commit_id: "VARCHAR",
+    ...prefixColumns("pr_rv_cmt_", commentObjectColumns),
+    ...prefixColumns("pr_rv_cmt_", pullRequestObjectColumns),
+  },
+  eventTime: (payload) => payload.comment.updated_at,
+  extract: (payload) => ({
+    pr_rv_cmt_action: payload.action,
+    pr_rv_cmt_target: "pull_request",
+    pr_rv_cmt_target_number: payload.pull_request.number,
+    pr_rv_cmt_review_id: payload.comment.pull_request_review_id,
+    pr_rv_cmt_in_reply_to_id: payload.comment.in_reply_to_id,
+    pr_rv_cmt_path: payload.comment.path || undefined,
+    pr_rv_cmt_commit_id: payload.comment.commit_id || undefined,
+    ...prefixRow("pr_rv_cmt_", commentObjectValues(payload.comment)),
+    ...prefixRow("pr_rv_cmt_", pullRequestObjectValues(payload.pull_request)),
+  }),
+});
+
+// https://docs.github.com/en/webhooks/webhook-events-and-payloads#pull_request_review_thread
+export const pullRequestReviewThreadExtractor = defineMeasureExtractor({
+  event: "pull_request_review_thread",
+  measureName: "pull_request_review_thread",
+  columns: {
+    pr_rv_thread_action: "VARCHAR",
+    pr_rv_thread_node_id: "VARCHAR",
+    pr_rv_thread_target: "VARCHAR",
+    pr_rv_thread_target_number: "BIGINT",
+    pr_rv_thread_comments_length: "BIGINT",
+    pr_rv_thread_last_cmt_created_at: "TIMESTAMP",
+    ...prefixColumns("pr_rv_thread_", commentObjectColumns),
+    ...prefixColumns("pr_rv_thread_", pullRequestObjectColumns),
+  },
+  eventTime: (payload) => payload.pull_request.updated_at,
+  extract: (payload) => {
+    const comments = payload.thread.comments || [];
+    return {
+      pr_rv_thread_action: payload.action,
+      pr_rv_thread_node_id: payload.thread.node_id,
+      pr_rv_thread_target: "pull_request",
+      pr_rv_thread_target_number: payload.pull_request.number,
+      pr_rv_thread_comments_length: comments.length,
+      pr_rv_thread_last_cmt_created_at:
+        comments.length > 0
+          ? comments[comments.length - 1].created_at
+          : undefined,
+      // The first comment of a thread is the one that opened the discussion
+      ...(comments.length > 0
+        ? prefixRow("pr_rv_thread_", commentObjectValues(comments[0]))
+        : {}),
+      ...prefixRow(
+        "pr_rv_thread_",
+        pullRequestObjectValues(payload.pull_request),
+      ),
+    };
+  },
+});
@@ -0,0 +1,76 @@
+import { defineMeasureExtractor } from "../registry";
+
+// https://docs.github.com/en/webhooks/webhook-events-and-payloads#push
+export const pushExtractor = defineMeasureExtractor({
+  event: "push",
+  measureName: "push",
+  identities: ["push_pusher_name"],
+  columns: {
+    push_after: "VARCHAR",
+    push_before: "VARCHAR",
+    push_commits_length: "BIGINT",
+    push_created: "BOOLEAN",
+    push_deleted: "BOOLEAN",
+    push_forced: "BOOLEAN",
+    push_pusher_name: "VARCHAR",
+    push_ref: "VARCHAR",
+    push_base_ref: "VARCHAR",
+  },
+  eventTime: (payload) => payload.head_commit?.timestamp,
+  extract: (payload) => ({
+    push_after: payload.after,
+    push_before: payload.before,
+    push_commits_length: payload.commits.length,
+    push_created: payload.created,
+    push_deleted: payload.deleted,
+    push_forced: payload.forced,
+    push_pusher_name: payload.pusher.name,
+    push_ref: payload.ref,
+    push_base_ref: payload.base_ref,
+  }),
+});
+
+/**
+ * Extract the domain part of an email address
+ * @param email Email address
+ * @returns Domain of the email address, or undefined if it has none
+ */
+function emailDomain(email: string | null | undefined): string | undefined {
+  const at = email ? email.lastIndexOf("@") : -1;
+  return at >= 0 ? email!.slice(at + 1).toLowerCase() : undefined;
+}
+
+// One record per commit of the push, to attribute commit volume to authors
+export const pushCommitExtractor = defineMeasureExtractor({
+  event: "push",
+  measureName: "push_commit",
+  dimensions: ["push_commit_id"],
+  columns: {
+    push_commit_id: "VARCHAR",
+    push_commit_timestamp: "TIMESTAMP",
+    push_commit_distinct: "BOOLEAN",
+    push_commit_author_login: "VARCHAR",
+    push_commit_author_email_domain: "VARCHAR",
+    push_commit_committer_login: "VARCHAR",
+    push_commit_committer_email_domain: "VARCHAR",
+    push_commit_added_length: "BIGINT",
+    push_commit_modified_length: "BIGINT",
+    push_commit_removed_length: "BIGINT",
+    push_commit_ref: "VARCHAR",
+  },
+  eventTime: (payload) => payload.head_commit?.timestamp,
+  extract: (payload) =>
+    payload.commits.map((commit) => ({
+      push_commit_id: commit.id,
+      push_commit_timestamp: commit.timestamp,
+      push_commit_distinct: commit.distinct,
+      push_commit_author_login: commit.author.username,
+      push_commit_author_email_domain: emailDomain(commit.author.email),
+      push_commit_committer_login: commit.committer.username,
+      push_commit_committer_email_domain: emailDomain(commit.committer.email),
+      push_commit_added_length: commit.added?.length,
+      push_commit_modified_length: commit.modified?.length,
+      push_commit_removed_length: commit.removed?.length,
+      push_commit_ref: payload.ref,
+    })),
+});
@@ -0,0 +1,72 @@
+import { defineMeasureExtractor } from "../registry";
+
+// https://docs.github.com/en/webhooks/webhook-events-and-payloads#release
+export const releaseExtractor = defineMeasureExtractor({
+  event: "release",
+  measureName: "release",
+  columns: {
+    release_action: "VARCHAR",
+    release_id: "BIGINT",
+    release_tag_name: "VARCHAR",
+    release_target_commitish: "VARCHAR",
+    release_draft: "BOOLEAN",
+    release_prerelease: "BOOLEAN",
+    release_name: "VARCHAR",
+    release_created_at: "TIMESTAMP",
+    release_published_at: "TIMESTAMP",
+    release_author_id: "BIGINT",
+    release_author_login: "VARCHAR",
+  },
+  eventTime: (payload) =>
+    payload.release.published_at ?? payload.release.created_at,
+  extract: (payload) => {
+    const release = payload.release;
+    return {
+      release_action: payload.action,
+      release_id: release.id,
+      release_tag_name: release.tag_name,
+      release_target_commitish: release.target_commitish,
+      release_draft: release.draft,
+      release_prerelease: release.prerelease,
+      release_name: release.name || undefined,
+      release_created_at: release.created_at,
+      release_published_at: release.published_at,
+      release_author_id: release.author?.id,
+      release_author_login: release.author?.login,
+    };
+  },
+});
+
+// https://docs.github.com/en/webhooks/webhook-events-and-payloads#create
+export const createExtractor = defineMeasureExtractor({
+  event: "create",
+  measureName: "create",
+  columns: {
+    create_ref: "VARCHAR",
+    create_ref_type: "VARCHAR",
+    create_pusher_type: "VARCHAR",
+    create_master_branch: "VARCHAR",
+  },
+  extract: (payload) => ({
+    create_ref: payload.ref,
+    create_ref_type: payload.ref_type,
+    create_pusher_type: payload.pusher_type,
+    create_master_branch: payload.master_branch || undefined,
+  }),
+});
+
+// https://docs.github.com/en/webhooks/webhook-events-and-payloads#delete
+export const deleteExtractor = defineMeasureExtractor({
+  event: "delete",
+  measureName: "delete",
+  columns: {
+    delete_ref: "VARCHAR",
+    delete_ref_type: "VARCHAR",
+    delete_pusher_type: "VARCHAR",
+  },
+  extract: (payload) => ({
+    delete_ref: payload.ref,
+    delete_ref_type: payload.ref_type,
+    delete_pusher_type: payload.pusher_type,
+  }),
+});
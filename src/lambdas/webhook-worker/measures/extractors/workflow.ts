@@ -0,0 +1,160 @@
+import { classifyActor } from "../../actor-kind";
+import { formatDuration } from "../format";
+import { defineMeasureExtractor, indexedColumns } from "../registry";
+import type { MeasureRow } from "../types";
+
+// https://docs.github.com/en/webhooks/webhook-events-and-payloads#workflow_run
+export const workflowRunExtractor = defineMeasureExtractor({
+  event: "workflow_run",
+  measureName: "workflow_run",
+  columns: {
+    wf_run_action: "VARCHAR",
+    // workflow object
+    wf_run_wf_created_at: "TIMESTAMP",
+    wf_run_wf_id: "BIGINT",
+    wf_run_wf_name: "VARCHAR",
+    wf_run_wf_path: "VARCHAR",
+    wf_run_wf_state: "VARCHAR",
+    wf_run_wf_updated_at: "TIMESTAMP",
+    // workflow_run object
+    wf_run_wf_run_actor_id: "BIGINT",
+    wf_run_wf_run_actor_login: "VARCHAR",
+    wf_run_wf_run_actor_kind: "VARCHAR",
+    wf_run_wf_run_check_suite_id: "BIGINT",
+    wf_run_wf_run_check_suite_node_id: "VARCHAR",
+    wf_run_wf_run_conclusion: "VARCHAR",
+    wf_run_wf_run_created_at: "TIMESTAMP",
+    wf_run_wf_run_event: "VARCHAR",
+    wf_run_wf_run_head_branch: "VARCHAR",
+    wf_run_wf_run_id: "BIGINT",
+    wf_run_wf_run_name: "VARCHAR",
+    wf_run_wf_run_node_id: "VARCHAR",
+    wf_run_wf_run_path: "VARCHAR",
+    wf_run_wf_run_attempt: "BIGINT",
+    wf_run_wf_run_number: "BIGINT",
+    wf_run_wf_run_started_at: "TIMESTAMP",
+    wf_run_wf_run_triggering_actor_id: "BIGINT",
+    wf_run_wf_run_triggering_actor_login: "VARCHAR",
+    wf_run_wf_run_triggering_actor_kind: "VARCHAR",
+    wf_run_wf_run_updated_at: "TIMESTAMP",
+    wf_run_wf_run_wf_id: "BIGINT",
+  },
+  eventTime: (payload) => payload.workflow_run.updated_at,
+  extract: (payload) => ({
+    wf_run_action: payload.action,
+    // workflow object
+    wf_run_wf_created_at: payload.workflow?.created_at,
+    wf_run_wf_id: payload.workflow?.id,
+    wf_run_wf_name: payload.workflow?.name,
+    wf_run_wf_path: payload.workflow?.path,
+    wf_run_wf_state: payload.workflow?.state,
+    wf_run_wf_updated_at: payload.workflow?.updated_at,
+    // workflow_run object
+    wf_run_wf_run_actor_id: payload.workflow_run.actor?.id,
+    wf_run_wf_run_actor_login: payload.workflow_run.actor?.login,
+    wf_run_wf_run_actor_kind: classifyActor(payload.workflow_run.actor),
+    wf_run_wf_run_check_suite_id: payload.workflow_run.check_suite_id,
+    wf_run_wf_run_check_suite_node_id: payload.workflow_run.check_suite_node_id,
+    wf_run_wf_run_conclusion: payload.workflow_run.conclusion,
+    wf_run_wf_run_created_at: payload.workflow_run.created_at,
+    wf_run_wf_run_event: payload.workflow_run.event,
+    wf_run_wf_run_head_branch: payload.workflow_run.head_branch || undefined,
+    wf_run_wf_run_id: payload.workflow_run.id,
+    wf_run_wf_run_name: payload.workflow_run.name || undefined,
+    wf_run_wf_run_node_id: payload.workflow_run.node_id,
+    wf_run_wf_run_path: String(payload.workflow_run.path),
+    wf_run_wf_run_attempt: payload.workflow_run.run_attempt,
+    wf_run_wf_run_number: payload.workflow_run.run_number,
+    wf_run_wf_run_started_at: payload.workflow_run.run_started_at,
+    wf_run_wf_run_triggering_actor_id:
+      payload.workflow_run.triggering_actor?.id,
+    wf_run_wf_run_triggering_actor_login:
+      payload.workflow_run.triggering_actor?.login,
+    wf_run_wf_run_triggering_actor_kind: classifyActor(
+      payload.workflow_run.triggering_actor,
+    ),
+    wf_run_wf_run_updated_at: payload.workflow_run.updated_at,
+    wf_run_wf_run_wf_id: payload.workflow_run.workflow_id,
+  }),
+});
+
+// https://docs.github.com/en/webhooks/webhook-events-and-payloads#workflow_job
+export const workflowJobExtractor = defineMeasureExtractor({
+  event: "workflow_job",
+  measureName: "workflow_job",
+  columns: {
+    wf_job_action: "VARCHAR",
+    wf_job_id: "BIGINT",
+    wf_job_run_id: "BIGINT",
+    wf_job_run_attempt: "BIGINT",
+    wf_job_name: "VARCHAR",
+    wf_job_head_sha: "VARCHAR",
+    wf_job_status: "VARCHAR",
+    wf_job_created_at: "TIMESTAMP",
+    wf_job_labels: "VARCHAR",
+    wf_job_labels_length: "BIGINT",
+    wf_job_self_hosted: "BOOLEAN",
+    wf_job_wf_name: "VARCHAR",
+    wf_job_head_branch: "VARCHAR",
+    wf_job_conclusion: "VARCHAR",
+    wf_job_started_at: "TIMESTAMP",
+    wf_job_completed_at: "TIMESTAMP",
+    wf_job_queued_duration: "BIGINT",
+    wf_job_run_duration: "BIGINT",
+    wf_job_runner_id: "BIGINT",
+    wf_job_runner_name: "VARCHAR",
+    wf_job_runner_group_id: "BIGINT",
+    wf_job_runner_group_name: "VARCHAR",
+    wf_job_steps_length: "BIGINT",
+    ...indexedColumns("wf_job_steps_", 20, {
+      name: "VARCHAR",
+      status: "VARCHAR",
+      conclusion: "VARCHAR",
+      duration: "BIGINT",
+    }),
+  },
+  eventTime: (payload) =>
+    payload.workflow_job.completed_at ?? payload.workflow_job.started_at,
+  extract: (payload) => {
+    const job = payload.workflow_job;
+    const labels = job.labels || [];
+    const steps = job.steps || [];
+    const row: MeasureRow = {
+      wf_job_action: payload.action,
+      wf_job_id: job.id,
+      wf_job_run_id: job.run_id,
+      wf_job_run_attempt: job.run_attempt,
+      wf_job_name: job.name,
+      wf_job_head_sha: job.head_sha,
+      wf_job_status: job.status,
+      wf_job_created_at: job.created_at,
+      wf_job_labels: labels.join(",") || undefined,
+      wf_job_labels_length: labels.length,
+      wf_job_self_hosted: labels.includes("self-hosted"),
+      wf_job_wf_name: job.workflow_name,
+      wf_job_head_branch: job.head_branch,
+      wf_job_conclusion: job.conclusion,
+      wf_job_started_at: job.started_at,
+      wf_job_completed_at: job.completed_at,
+      // Time spent waiting for a runner
+      wf_job_queued_duration: formatDuration(job.created_at, job.started_at),
+      // Time spent running on the runner
+      wf_job_run_duration: formatDuration(job.started_at, job.completed_at),
+      wf_job_runner_id: job.runner_id,
+      wf_job_runner_name: job.runner_name,
+      wf_job_runner_group_id: job.runner_group_id,
+      wf_job_runner_group_name: job.runner_group_name,
+      wf_job_steps_length: steps.length,
+    };
+    for (let i = 0; i < Math.min(steps.length, 20); i++) {
+      row[`wf_job_steps_${i}_name`] = steps[i].name;
+      row[`wf_job_steps_${i}_status`] = steps[i].status;
+      row[`wf_job_steps_${i}_conclusion`] = steps[i].conclusion;
+      row[`wf_job_steps_${i}_duration`] = formatDuration(
+        steps[i].started_at,
+        steps[i].completed_at,
+      );
+    }
+    return row;
+  },
+});
@@ -0,0 +1,29 @@
+/**
+ * Converts an ISO 8601 formatted timestamp string to milliseconds since Unix epoch
+ *
+ * @param isoTimestamp ISO 8601 formatted timestamp string (e.g. 2025-05-04T10:41:38Z)
+ * @returns String representing milliseconds since Unix epoch
+ */
+export function formatTimestamp(isoTimestamp: string): string {
+  const date = new Date(isoTimestamp);
+  return String(date.getTime());
+}
+
+/**
+ * Computes the duration between two ISO 8601 formatted timestamp strings
+ *
+ * @param startTimestamp ISO 8601 formatted timestamp string of the start
+ * @param endTimestamp ISO 8601 formatted timestamp string of the end
+ * @returns String representing the duration in milliseconds, or undefined if either timestamp is missing
+ */
+export function formatDuration(
+  startTimestamp: string | null | undefined,
+  endTimestamp: string | null | undefined,
+): string | undefined {
+  if (!startTimestamp || !endTimestamp) {
+    return undefined;
+  }
+  const duration =
+    new Date(endTimestamp).getTime() - new Date(startTimestamp).getTime();
+  return Number.isNaN(duration) ? undefined : String(duration);
+}
@@ -0,0 +1,34 @@
+/**
+ * Returns Timestream measure definitions based on GitHub event types
+ *
+ * Built-in extractors live in `./extractors`.
+ * Additional extractors can be added with `registerMeasureExtractor` without editing this module.
+ */
+import { builtinMeasureExtractors } from "./extractors";
+import { registerMeasureExtractor } from "./registry";
+
+builtinMeasureExtractors.forEach((extractor) =>
+  registerMeasureExtractor(extractor),
+);
+
+export { formatDuration, formatTimestamp } from "./format";
+export {
+  defineMeasureExtractor,
+  findMeasureExtractors,
+  getMeasures,
+  indexedColumns,
+  prefixColumns,
+  prefixRow,
+  registerMeasureExtractor,
+} from "./registry";
+export type { GetMeasuresOptions } from "./registry";
+export type {
+  MeasureColumnType,
+  MeasureColumns,
+  MeasureExtractor,
+  MeasureRow,
+  WebhookPayload,
+  dimensionType,
+  measureType,
+  multiMeasureValuesType,
+} from "./types";
@@ -0,0 +1,231 @@
+import type { EmitterWebhookEventName } from "@octokit/webhooks";
+import { formatTimestamp } from "./format";
+import type {
+  dimensionType,
+  MeasureColumns,
+  MeasureExtractor,
+  MeasureRow,
+  measureType,
+  multiMeasureValuesType,
+} from "./types";
+import {
+  isIdentityName,
+  type Pseudonymizer,
+} from "../../common/pseudonymization";
+
+const extractors = new Map<string, MeasureExtractor<any>[]>();
+
+/**
+ * Options of `getMeasures`
+ */
+export interface GetMeasuresOptions {
+  /**
+   * Pseudonymizer replacing the values of identity columns
+   * @default - identities are written as they are
+   */
+  pseudonymizer?: Pseudonymizer;
+}
+
+/**
+ * Register a measure extractor.
+ * Several extractors can be registered for the same event, each producing its own measure.
+ * Registering an extractor with the same event (or event and action) and measure name as an existing one replaces it.
+ * @param extractor Measure extractor
+ */
+export function registerMeasureExtractor<E extends EmitterWebhookEventName>(
+  extractor: MeasureExtractor<E>,
+) {
+  const registered = extractors.get(extractor.event) ?? [];
+  const index = registered.findIndex(
+    (existing) => existing.measureName === extractor.measureName,
+  );
+  if (index >= 0) {
+    console.log(
+      `Replacing measure extractor for ${extractor.event} (${extractor.measureName})`,
+    );
+    registered[index] = extractor;
+  } else {
+    registered.push(extractor);
+  }
+  extractors.set(extractor.event, registered);
+}
+
+/**
+ * Helper to define a measure extractor with the payload type inferred from the event name
+ * @param extractor Measure extractor
+ * @returns The given measure extractor
+ */
+export function defineMeasureExtractor<E extends EmitterWebhookEventName>(
+  extractor: MeasureExtractor<E>,
+): MeasureExtractor<E> {
+  return extractor;
+}
+
+/**
+ * Find the extractors for the event.
+ * Extractors registered for the action take precedence over the ones registered for the whole event.
+ * @param event_type GitHub event type
+ * @param action Action of the event, if any
+ * @returns The extractors, or an empty array if no extractor is registered
+ */
+export function findMeasureExtractors(
+  event_type: string,
+  action?: string,
+): MeasureExtractor<any>[] {
+  return (
+    (action ? extractors.get(`${event_type}.${action}`) : undefined) ??
+    extractors.get(event_type) ??
+    []
+  );
+}
+
+/**
+ * Get measure definitions based on event type
+ * @param event_type GitHub event type
+ * @param payload GitHub event payload data
+ * @param options Pseudonymization of identities
+ * @returns Timestream measure definitions, or undefined if no extractor is registered for the event
+ */
+export function getMeasures(
+  event_type: string,
+  payload: any,
+  options: GetMeasuresOptions = {},
+): measureType[] | undefined {
+  const found = findMeasureExtractors(event_type, payload?.action);
+  if (found.length === 0) {
+    return undefined;
+  }
+  return found.flatMap((extractor) => {
+    const extracted = extractor.extract(payload);
+    const rows = Array.isArray(extracted) ? extracted : [extracted];
+    const time = resolveEventTime(extractor, payload);
+    return rows.map((row) =>
+      toMeasure(extractor, row, time, options.pseudonymizer),
+    );
+  });
+}
+
+/**
+ * Resolve the time the event happened using the resolver of the extractor
+ * @param extractor Measure extractor
+ * @param payload GitHub event payload data
+ * @returns Milliseconds since Unix epoch, or undefined if the time cannot be resolved
+ */
+function resolveEventTime(
+  extractor: MeasureExtractor<any>,
+  payload: any,
+): string | undefined {
+  const value = extractor.eventTime?.(payload);
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const time = typeof value === "number" ? value : Date.parse(value);
+  return Number.isNaN(time) ? undefined : String(time);
+}
+
+/**
+ * Convert extracted values to a Timestream measure using the column schema of the extractor
+ * @param extractor Measure extractor that extracted the values
+ * @param row Extracted values
+ * @param time Time the event happened, in milliseconds since Unix epoch
+ * @param pseudonymizer Pseudonymizer replacing the values of identity columns
+ * @returns Timestream measure definition
+ */
+function toMeasure(
+  extractor: MeasureExtractor<any>,
+  row: MeasureRow,
+  time: string | undefined,
+  pseudonymizer: Pseudonymizer | undefined,
+): measureType {
+  const dimensionNames = extractor.dimensions ?? [];
+  const measureValues: multiMeasureValuesType[] = [];
+  const dimensions: dimensionType[] = [];
+  for (const [name, value] of Object.entries(row)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    const type = extractor.columns[name];
+    if (!type) {
+      throw new Error(
+        `Column "${name}" is not declared in the schema of measure "${extractor.measureName}"`,
+      );
+    }
+    let formatted =
+      type === "TIMESTAMP" && typeof value === "string"
+        ? formatTimestamp(value)
+        : String(value);
+    if (
+      pseudonymizer &&
+      (isIdentityName(name) || extractor.identities?.includes(name))
+    ) {
+      formatted =
+        type === "BIGINT"
+          ? pseudonymizer.id(formatted)
+          : pseudonymizer.login(formatted);
+    }
+    if (dimensionNames.includes(name)) {
+      dimensions.push({ Name: name, Value: formatted });
+      continue;
+    }
+    measureValues.push({ Name: name, Type: type, Value: formatted });
+  }
+  return {
+    measureName: extractor.measureName,
+    measureValueType: "MULTI",
+    measureValues,
+    ...(dimensions.length > 0 ? { dimensions } : {}),
+    ...(time !== undefined ? { time } : {}),
+  };
+}
+
+/**
+ * Build the column schema of repeated columns, e.g. `pr_labels_0_name` ... `pr_labels_4_name`
+ * @param prefix Prefix of the column names
+ * @param count Number of repetitions
+ * @param fields Column schema of a single repetition
+ * @returns Column schema
+ */
+export function indexedColumns(
+  prefix: string,
+  count: number,
+  fields: MeasureColumns,
+): MeasureColumns {
+  const columns: MeasureColumns = {};
+  for (let i = 0; i < count; i++) {
+    for (const [field, type] of Object.entries(fields)) {
+      columns[`${prefix}${i}_${field}`] = type;
+    }
+  }
+  return columns;
+}
+
+/**
+ * Build the column schema of columns sharing a prefix
+ * @param prefix Prefix of the column names
+ * @param fields Column schema without the prefix
+ * @returns Column schema
+ */
+export function prefixColumns(
+  prefix: string,
+  fields: MeasureColumns,
+): MeasureColumns {
+  const columns: MeasureColumns = {};
+  for (const [field, type] of Object.entries(fields)) {
+    columns[`${prefix}${field}`] = type;
+  }
+  return columns;
+}
+
+/**
+ * Prefix the keys of extracted values
+ * @param prefix Prefix of the column names
+ * @param row Extracted values without the prefix
+ * @returns Extracted values
+ */
+export function prefixRow(prefix: string, row: MeasureRow): MeasureRow {
+  const prefixed: MeasureRow = {};
+  for (const [field, value] of Object.entries(row)) {
+    prefixed[`${prefix}${field}`] = value;
+  }
+  return prefixed;
+}
@@ -0,0 +1,104 @@
+import type {
+  EmitterWebhookEvent,
+  EmitterWebhookEventName,
+} from "@octokit/webhooks";
+
+// The definition of measureType is based on the Timestream data types.
+// See https://docs.aws.amazon.com/ja_jp/timestream/latest/developerguide/writes.html#writes.data-types for detail.
+
+/**
+ * Timestream data type of a column in a MULTI measure record
+ */
+export type MeasureColumnType =
+  "BIGINT" | "DOUBLE" | "VARCHAR" | "BOOLEAN" | "TIMESTAMP";
+
+export type multiMeasureValuesType = {
+  Name: string;
+  Type: MeasureColumnType;
+  Value: string;
+};
+
+export type dimensionType = {
+  Name: string;
+  Value: string;
+};
+
+export type measureType = {
+  measureName: string;
+  measureValueType: "MULTI";
+  measureValues: multiMeasureValuesType[];
+  /**
+   * Dimensions specific to this record, added to the common dimensions of the delivery
+   */
+  dimensions?: dimensionType[];
+  /**
+   * Time the event happened, in milliseconds since Unix epoch
+   * @default - the time the delivery was received
+   */
+  time?: string;
+};
+
+/**
+ * Column schema of a measure: column name -> Timestream data type
+ */
+export type MeasureColumns = Record<string, MeasureColumnType>;
+
+/**
+ * Column values extracted from a payload.
+ * `null` and `undefined` values are not written to Timestream.
+ * Values of TIMESTAMP columns are ISO 8601 strings or milliseconds since Unix epoch.
+ */
+export type MeasureRow = Record<
+  string,
+  string | number | boolean | null | undefined
+>;
+
+/**
+ * Payload type of a webhook event, e.g. `WebhookPayload<"pull_request.closed">`
+ */
+export type WebhookPayload<E extends EmitterWebhookEventName> =
+  EmitterWebhookEvent<E>["payload"];
+
+/**
+ * Extractor that turns a webhook payload into a Timestream measure
+ */
+export interface MeasureExtractor<
+  E extends EmitterWebhookEventName = EmitterWebhookEventName,
+> {
+  /**
+   * Event name, optionally followed by an action (e.g. "issues" or "issues.opened").
+   * An extractor registered for an action takes precedence over the one registered for the whole event.
+   */
+  readonly event: E;
+  /**
+   * Timestream measure name
+   */
+  readonly measureName: string;
+  /**
+   * Every column the extractor may write, with its Timestream data type
+   */
+  readonly columns: MeasureColumns;
+  /**
+   * Columns written as record dimensions instead of measure values.
+   * Use them to tell apart records of the same measure extracted from a single delivery.
+   */
+  readonly dimensions?: readonly string[];
+  /**
+   * Columns holding GitHub logins or user IDs in addition to the ones named `*_login`, `*_user_id`, `*_actor_id`, `*_creator_id`, `*_author_id`, `*_assignee_id` and `*_assignees_<n>_id`.
+   * They are replaced with tokens when pseudonymization is enabled.
+   */
+  readonly identities?: readonly string[];
+  /**
+   * Resolve the time the event happened, as an ISO 8601 string or milliseconds since Unix epoch.
+   * Records are written at this time, so that delayed deliveries, redeliveries and backfills land at the right time.
+   * When omitted or when it returns nothing, records are written at the time the delivery was received.
+   * @param payload GitHub webhook payload
+   */
+  eventTime?(payload: WebhookPayload<E>): string | number | null | undefined;
+  /**
+   * Extract column values from the payload.
+   * Returning an array writes one record per element.
+   * @param payload GitHub webhook payload
+   */
+  extract(payload: WebhookPayload<E>): MeasureRow | MeasureRow[];
+}
@@ -0,0 +1,228 @@
+import {
+  MeasureValue,
+  MeasureValueType,
+  TimestreamWriteClient,
+  WriteRecordsCommand,
+} from "@aws-sdk/client-timestream-write";
+import { queryTimestream } from "../common/timestream-query";
+
+const timestreamWriteClient = new TimestreamWriteClient();
+
+/**
+ * Reviews of a pull request stored by the pull_request_review extractor
+ */
+export interface ReviewStats {
+  /**
+   * Submission time of the earliest review in milliseconds since Unix epoch
+   */
+  firstReviewAt?: number;
+  reviews: number;
+  /**
+   * Number of distinct commits reviewed, each push reviewed again starting a new cycle
+   */
+  reviewCycles: number;
+}
+
+/**
+ * Lifecycle of a closed pull request
+ */
+export interface PullRequestLifecycle {
+  outcome: "merged" | "abandoned";
+  /**
+   * Creation time in milliseconds since Unix epoch
+   */
+  createdAt: number;
+  /**
+   * Close time in milliseconds since Unix epoch
+   */
+  closedAt: number;
+  /**
+   * Seconds from creation to merge, only for merged pull requests
+   */
+  leadTimeSeconds?: number;
+  openSeconds: number;
+  /**
+   * Seconds from creation to the first review, only for reviewed pull requests
+   */
+  timeToFirstReviewSeconds?: number;
+  reviews: number;
+  reviewCycles: number;
+}
+
+function quote(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+/**
+ * Query the reviews of a pull request stored by the pull_request_review extractor
+ * Reviews by the author of the pull request are not counted.
+ * @param databaseName Timestream database name
+ * @param tableName Timestream table of webhook events
+ * @param repositoryFullName Full name of the repository
+ * @param pullNumber Pull request number
+ * @param createdAt Creation time of the pull request in milliseconds since Unix epoch, bounding the scanned time range
+ * @returns Review statistics
+ */
+export async function queryReviewStats(
+  databaseName: string,
+  tableName: string,
+  repositoryFullName: string,
+  pullNumber: number,
+  createdAt: number,
+): Promise<ReviewStats> {
+  // Review records are written at the time the review was submitted, which cannot precede the creation of the pull request
+  const queryString = `
+    SELECT
+      to_milliseconds(min(pr_rv_review_submitted_at)) AS first_review_at,
+      count(DISTINCT pr_rv_review_id) AS reviews,
+      count(DISTINCT pr_rv_review_commit_id) AS review_cycles
+    FROM "${databaseName}"."${tableName}"
+    WHERE measure_name = 'pull_request'
+      AND event_type = 'pull_request_review'
+      AND pr_rv_action = 'submitted'
+      AND repository_full_name = ${quote(repositoryFullName)}
+      AND pr_rv_pr_number = ${Math.trunc(pullNumber)}
+      AND pr_rv_review_user_id <> pr_rv_pr_user_id
+      AND time >= from_milliseconds(${Math.trunc(createdAt)})
+  `;
+
+  // An aggregation without GROUP BY returns a single row, or none while no review has been stored yet
+  const [row = {}] = await queryTimestream(queryString);
+  return {
+    firstReviewAt:
+      row.first_review_at !== undefined
+        ? Number(row.first_review_at)
+        : undefined,
+    reviews: Number(row.reviews ?? 0),
+    reviewCycles: Number(row.review_cycles ?? 0),
+  };
+}
+
+/**
+ * Derive the lifecycle of a closed pull request
+ * @param pullRequest Pull request object of the closed event
+ * @param reviewStats Reviews of the pull request
+ * @returns Lifecycle of the pull request
+ */
+export function summarizePullRequestLifecycle(
+  pullRequest: {
+    created_at: string;
+    closed_at: string | null;
+    merged_at: string | null;
+  },
+  reviewStats: ReviewStats,
+): PullRequestLifecycle {
+  const createdAt = Date.parse(pullRequest.created_at);
+  const mergedAt = pullRequest.merged_at
+    ? Date.parse(pullRequest.merged_at)
+    : undefined;
+  const closedAt = pullRequest.closed_at
+    ? Date.parse(pullRequest.closed_at)
+    : (mergedAt ?? Date.now());
+  const seconds = (from: number, to: number) =>
+    Math.max(0, Math.round((to - from) / 1000));
+
+  return {
+    outcome: mergedAt !== undefined ? "merged" : "abandoned",
+    createdAt,
+    closedAt,
+    leadTimeSeconds:
+      mergedAt !== undefined ? seconds(createdAt, mergedAt) : undefined,
+    openSeconds: seconds(createdAt, closedAt),
+    timeToFirstReviewSeconds:
+      reviewStats.firstReviewAt !== undefined
+        ? seconds(createdAt, reviewStats.firstReviewAt)
+        : undefined,
+    reviews: reviewStats.reviews,
+    reviewCycles: reviewStats.reviewCycles,
+  };
+}
+
+/**
+ * Compute the lifecycle of a pull request closed by a `pull_request` `closed` delivery, and write it to the derived table
+ * The record is written at the time the pull request was closed, with a version that lets a replayed delivery overwrite it.
+ * @param deliveryId Value of the X-GitHub-Delivery header
+ * @param payload Payload of the delivery
+ * @param ingestedAt Time the delivery was received in milliseconds since Unix epoch
+ */
+export async function recordPullRequestLifecycle(
+  deliveryId: string,
+  payload: any,
+  ingestedAt: number,
+) {
+  const databaseName = process.env.TIMESTREAM_DATABASE_NAME!;
+  const pullRequest = payload.pull_request;
+  const reviewStats = await queryReviewStats(
+    databaseName,
+    process.env.TIMESTREAM_TABLE_NAME!,
+    payload.repository.full_name,
+    pullRequest.number,
+    Date.parse(pullRequest.created_at),
+  );
+  const lifecycle = summarizePullRequestLifecycle(pullRequest, reviewStats);
+
+  const bigint = (name: string, value: number | undefined): MeasureValue[] =>
+    value === undefined
+      ? []
+      : [
+        {
+          Name: name,
+          Value: value.toString(),
+          Type: MeasureValueType.BIGINT,
+        },
+      ];
+  const timestamp = (name: string, value: number): MeasureValue => ({
+    Name: name,
+    Value: value.toString(),
+    Type: MeasureValueType.TIMESTAMP,
+  });
+
+  await timestreamWriteClient.send(
+    new WriteRecordsCommand({
+      DatabaseName: databaseName,
+      TableName: process.env.PR_LIFECYCLE_TABLE_NAME!,
+      Records: [
+        {
+          Dimensions: [
+            {
+              Name: "repository_full_name",
+              Value: payload.repository.full_name,
+            },
+            ...(payload.organization
+              ? [
+                {
+                  Name: "organization_login",
+                  Value: payload.organization.login,
+                },
+              ]
+              : []),
+            { Name: "pr_number", Value: pullRequest.number.toString() },
+            { Name: "outcome", Value: lifecycle.outcome },
+            { Name: "delivery_id", Value: deliveryId },
+          ],
+          MeasureName: "pr_lifecycle",
+          MeasureValueType: MeasureValueType.MULTI,
+          MeasureValues: [
+            timestamp("pr_created_at", lifecycle.createdAt),
+            {
+              Name: "pr_merged",
+              Value: String(lifecycle.outcome === "merged"),
+              Type: MeasureValueType.BOOLEAN,
+            },
+            ...bigint("pr_lead_time_seconds", lifecycle.leadTimeSeconds),
+            ...bigint("pr_open_seconds", lifecycle.openSeconds),
+            ...bigint(
+              "pr_time_to_first_review_seconds",
+              lifecycle.timeToFirstReviewSeconds,
+            ),
+            ...bigint("pr_reviews", lifecycle.reviews),
+            ...bigint("pr_review_cycles", lifecycle.reviewCycles),
+            timestamp("ingested_at", ingestedAt),
+          ],
+          Time: lifecycle.closedAt.toString(),
+          Version: Date.now(),
+        },
+      ],
+    }),
+  );
+}
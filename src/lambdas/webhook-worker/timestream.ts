@@ -0,0 +1,194 @@
+import { _Record } from "@aws-sdk/client-timestream-write";
+import { classifyActor, isPerformedViaGitHubApp } from "./actor-kind";
+import { measureType, multiMeasureValuesType } from "./measures";
+import type { Pseudonymizer } from "../common/pseudonymization";
+import { writeTimestreamRecords } from "../common/timestream-write";
+
+/**
+ * Metadata of a webhook delivery written as common dimensions of its records
+ */
+export interface WebhookData {
+  action?: string;
+  repository: { id: number; name: string; full_name: string } | null;
+  organization: { login: string; id: number } | null;
+  sender: { login: string; id: number } | null;
+  event_type: string;
+  delivery_id: string;
+  payload: any;
+}
+
+/**
+ * Options of `sendToTimestream`
+ */
+export interface SendToTimestreamOptions {
+  /**
+   * Time of the records whose event time cannot be resolved from the payload, in milliseconds since Unix epoch.
+   * Usually the time the delivery was received.
+   * @default Date.now()
+   */
+  time?: number;
+  /**
+   * Time the delivery was ingested, written as the `ingested_at` measure value of every record
+   * @default Date.now()
+   */
+  ingestedAt?: number;
+  /**
+   * Version of the records. A record with a higher version overwrites an existing record with the same dimensions and time.
+   * @default - no version (Timestream uses 1)
+   */
+  version?: number;
+  /**
+   * Pseudonymizer replacing the sender login and ID
+   * @default - the sender is written as it is
+   */
+  pseudonymizer?: Pseudonymizer;
+}
+
+/**
+ * Create the structured data of a webhook delivery
+ * @param eventType GitHub event type
+ * @param deliveryId GitHub delivery ID
+ * @param payload Parsed webhook payload
+ * @returns Structured data
+ */
+export function toWebhookData(
+  eventType: string,
+  deliveryId: string,
+  payload: any,
+): WebhookData {
+  return {
+    action: payload.action,
+    repository: payload.repository
+      ? {
+        id: payload.repository.id,
+        name: payload.repository.name,
+        full_name: payload.repository.full_name,
+      }
+      : null,
+    organization: payload.organization
+      ? {
+        login: payload.organization.login,
+        id: payload.organization.id,
+      }
+      : null,
+    sender: payload.sender
+      ? {
+        login: payload.sender.login,
+        id: payload.sender.id,
+      }
+      : null,
+    event_type: eventType,
+    delivery_id: deliveryId,
+    payload,
+  };
+}
+
+/**
+ * Build Timestream records of a webhook delivery
+ * @param data Structured data of the delivery
+ * @param measures Measures extracted from the payload
+ * @param options Time, version and pseudonymization of the records
+ * @returns Timestream records
+ */
+export function buildTimestreamRecords(
+  data: WebhookData,
+  measures: measureType[],
+  options: SendToTimestreamOptions = {},
+): _Record[] {
+  // Get timestamps in milliseconds
+  const fallbackTime = (options.time ?? Date.now()).toString();
+  const ingestedAt: multiMeasureValuesType = {
+    Name: "ingested_at",
+    Type: "TIMESTAMP",
+    Value: (options.ingestedAt ?? Date.now()).toString(),
+  };
+
+  // Create common dimensions (metadata)
+  const commonDimensions = [
+    { Name: "event_type", Value: data.event_type },
+    { Name: "delivery_id", Value: data.delivery_id },
+  ];
+
+  // Add repository information if it exists
+  if (data.repository) {
+    commonDimensions.push(
+      { Name: "repository_id", Value: data.repository.id.toString() },
+      { Name: "repository_name", Value: data.repository.name },
+      { Name: "repository_full_name", Value: data.repository.full_name },
+    );
+  }
+
+  // Add organization information if it exists
+  if (data.organization) {
+    commonDimensions.push(
+      { Name: "organization_id", Value: data.organization.id.toString() },
+      { Name: "organization_login", Value: data.organization.login },
+    );
+  }
+
+  // Add sender information if it exists
+  if (data.sender) {
+    const pseudonymizer = options.pseudonymizer;
+    commonDimensions.push(
+      {
+        Name: "sender_id",
+        Value: pseudonymizer
+          ? pseudonymizer.id(data.sender.id)
+          : data.sender.id.toString(),
+      },
+      {
+        Name: "sender_login",
+        Value: pseudonymizer
+          ? pseudonymizer.login(data.sender.login)
+          : data.sender.login,
+      },
+    );
+  }
+
+  // Classify the sender to tell apart activities of bots
+  commonDimensions.push({
+    Name: "actor_kind",
+    Value: classifyActor(
+      data.payload?.sender,
+      isPerformedViaGitHubApp(data.payload),
+    ),
+  });
+
+  // Add action if it exists
+  if (data.action) {
+    commonDimensions.push({ Name: "action", Value: data.action });
+  }
+
+  // Create records
+  return measures.map((measure) => ({
+    Dimensions: [...commonDimensions, ...(measure.dimensions ?? [])],
+    MeasureName: measure.measureName,
+    MeasureValues: [...measure.measureValues, ingestedAt],
+    MeasureValueType: measure.measureValueType,
+    Time: measure.time ?? fallbackTime,
+    ...(options.version !== undefined ? { Version: options.version } : {}),
+  }));
+}
+
+/**
+ * Send data to Timestream
+ * @param data Structured data of the delivery
+ * @param measures Measures extracted from the payload
+ * @param databaseName Timestream database name
+ * @param tableName Timestream table name
+ * @param options Time, version and pseudonymization of the records
+ * @returns Results of the WriteRecords calls
+ */
+export async function sendToTimestream(
+  data: WebhookData,
+  measures: measureType[],
+  databaseName: string,
+  tableName: string,
+  options: SendToTimestreamOptions = {},
+) {
+  console.log("Measures:", JSON.stringify(measures));
+
+  const records = buildTimestreamRecords(data, measures, options);
+
+  return writeTimestreamRecords(databaseName, tableName, records);
+}
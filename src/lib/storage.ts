@@ -1,6 +1,8 @@
 import { Duration, RemovalPolicy } from "aws-cdk-lib";
 import * as backup from "aws-cdk-lib/aws-backup";
+import * as dynamodb from "aws-cdk-lib/aws-dynamodb";
 import { Schedule } from "aws-cdk-lib/aws-events";
+import * as s3 from "aws-cdk-lib/aws-s3";
 import * as timestream from "aws-cdk-lib/aws-timestream";
 import { NagSuppressions } from "cdk-nag";
 import { Construct } from "constructs";
@@ -24,6 +26,16 @@ export interface StorageProps {
    * @default "github_api_result"
    */
   githubAPIResultTableName: string;
+  /**
+   * Timestream table name for pull request lifecycle metrics derived when a pull request is closed
+   * @default "pr_lifecycle"
+   */
+  prLifecycleTableName: string;
+  /**
+   * Timestream table name for DORA metrics rolled up by the scheduled rollup job
+   * @default "dora_metrics"
+   */
+  doraMetricsTableName: string;
 }
 
 export class Storage extends Construct {
@@ -47,11 +59,36 @@ export class Storage extends Construct {
    */
   public readonly githubAPIResultTimestreamTable: timestream.CfnTable;
 
+  /**
+   * Timestream table for pull request lifecycle metrics
+   */
+  public readonly prLifecycleTimestreamTable: timestream.CfnTable;
+
+  /**
+   * Timestream table for DORA metrics
+   */
+  public readonly doraMetricsTimestreamTable: timestream.CfnTable;
+
+  /**
+   * S3 bucket that receives records Timestream rejects while writing them to the magnetic store
+   */
+  public readonly timestreamRejectedRecordsBucket: s3.Bucket;
+
   /**
    * AWS Backup Vault for storing backups
    */
   public readonly backupVault: backup.BackupVault;
 
+  /**
+   * S3 bucket that archives the raw payload of every verified webhook delivery
+   */
+  public readonly webhookArchiveBucket: s3.Bucket;
+
+  /**
+   * DynamoDB table that records processed webhook delivery IDs to skip redeliveries
+   */
+  public readonly webhookDeliveryTable: dynamodb.Table;
+
   constructor(scope: Construct, id: string, props: StorageProps) {
     super(scope, id);
 
@@ -64,6 +101,44 @@ export class Storage extends Construct {
       },
     );
 
+    // S3 bucket for records rejected by magnetic store writes.
+    // Magnetic store writes are asynchronous, so rejections are only reported here.
+    this.timestreamRejectedRecordsBucket = new s3.Bucket(
+      this,
+      "TimestreamRejectedRecordsBucket",
+      {
+        removalPolicy: RemovalPolicy.RETAIN,
+        blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+        encryption: s3.BucketEncryption.S3_MANAGED,
+        enforceSSL: true,
+        lifecycleRules: [{ expiration: Duration.days(90) }],
+      },
+    );
+
+    NagSuppressions.addResourceSuppressions(
+      this.timestreamRejectedRecordsBucket,
+      [
+        {
+          id: "AwsSolutions-S1",
+          reason:
+            "Server access logs are not required for rejected records during the prototype phase",
+        },
+      ],
+    );
+
+    // Records older than the memory store retention (delayed deliveries, redeliveries and backfills)
+    // are written to the magnetic store
+    const magneticStoreWriteProperties = (tableName: string) => ({
+      enableMagneticStoreWrites: true,
+      magneticStoreRejectedDataLocation: {
+        s3Configuration: {
+          bucketName: this.timestreamRejectedRecordsBucket.bucketName,
+          encryptionOption: "SSE_S3",
+          objectKeyPrefix: `${tableName}/`,
+        },
+      },
+    });
+
     // Timestream table for storing GitHub webhook events
     this.githubWebHookTimestreamTable = new timestream.CfnTable(
       this,
@@ -75,6 +150,9 @@ export class Storage extends Construct {
           memoryStoreRetentionPeriodInHours: "24", // 1 day in memory store
           magneticStoreRetentionPeriodInDays: "365", // 1 year in magnetic store
         },
+        magneticStoreWriteProperties: magneticStoreWriteProperties(
+          props.githubWebHookTableName,
+        ),
       },
     );
 
@@ -89,6 +167,9 @@ export class Storage extends Construct {
           memoryStoreRetentionPeriodInHours: "24", // 1 day in memory store
           magneticStoreRetentionPeriodInDays: "365", // 1 year in magnetic store
         },
+        magneticStoreWriteProperties: magneticStoreWriteProperties(
+          props.customDataTableName,
+        ),
       },
     );
 
@@ -103,6 +184,43 @@ export class Storage extends Construct {
           memoryStoreRetentionPeriodInHours: "24", // 1 day in memory store
           magneticStoreRetentionPeriodInDays: "365", // 1 year in magnetic store
         },
+        magneticStoreWriteProperties: magneticStoreWriteProperties(
+          props.githubAPIResultTableName,
+        ),
+      },
+    );
+
+    // Timestream table for storing pull request lifecycle metrics derived from the stored events
+    this.prLifecycleTimestreamTable = new timestream.CfnTable(
+      this,
+      "PullRequestLifecycleTable",
+      {
+        databaseName: props.databaseName,
+        tableName: props.prLifecycleTableName,
+        retentionProperties: {
+          memoryStoreRetentionPeriodInHours: "24", // 1 day in memory store
+          magneticStoreRetentionPeriodInDays: "365", // 1 year in magnetic store
+        },
+        magneticStoreWriteProperties: magneticStoreWriteProperties(
+          props.prLifecycleTableName,
+        ),
+      },
+    );
+
+    // Timestream table for storing daily and weekly DORA metrics
+    this.doraMetricsTimestreamTable = new timestream.CfnTable(
+      this,
+      "DoraMetricsTable",
+      {
+        databaseName: props.databaseName,
+        tableName: props.doraMetricsTableName,
+        retentionProperties: {
+          memoryStoreRetentionPeriodInHours: "24", // 1 day in memory store
+          magneticStoreRetentionPeriodInDays: "1825", // 5 years in magnetic store
+        },
+        magneticStoreWriteProperties: magneticStoreWriteProperties(
+          props.doraMetricsTableName,
+        ),
       },
     );
 
@@ -110,6 +228,8 @@ export class Storage extends Construct {
     this.githubWebHookTimestreamTable.addDependency(this.timestreamDatabase);
     this.customDataTimestreamTable.addDependency(this.timestreamDatabase);
     this.githubAPIResultTimestreamTable.addDependency(this.timestreamDatabase);
+    this.prLifecycleTimestreamTable.addDependency(this.timestreamDatabase);
+    this.doraMetricsTimestreamTable.addDependency(this.timestreamDatabase);
 
     // Create AWS Backup Vault to store backups
     this.backupVault = new backup.BackupVault(this, "MetricsBackupVault", {
@@ -148,9 +268,62 @@ export class Storage extends Construct {
         backup.BackupResource.fromArn(
           this.githubAPIResultTimestreamTable.attrArn,
         ),
+        backup.BackupResource.fromArn(this.prLifecycleTimestreamTable.attrArn),
+        backup.BackupResource.fromArn(this.doraMetricsTimestreamTable.attrArn),
       ],
     });
 
+    // S3 bucket for archiving raw webhook payloads.
+    // Archived payloads are the source of truth for replay and backfill, so the bucket is retained.
+    this.webhookArchiveBucket = new s3.Bucket(this, "WebhookArchiveBucket", {
+      removalPolicy: RemovalPolicy.RETAIN,
+      blockPublicAccess: s3.BlockPublicAccess.BLOCK_ALL,
+      encryption: s3.BucketEncryption.S3_MANAGED,
+      enforceSSL: true,
+      lifecycleRules: [
+        {
+          id: "MoveToCheaperStorageClasses",
+          transitions: [
+            {
+              storageClass: s3.StorageClass.INFREQUENT_ACCESS,
+              transitionAfter: Duration.days(30),
+            },
+            {
+              storageClass: s3.StorageClass.GLACIER_INSTANT_RETRIEVAL,
+              transitionAfter: Duration.days(90),
+            },
+          ],
+        },
+      ],
+    });
+
+    NagSuppressions.addResourceSuppressions(this.webhookArchiveBucket, [
+      {
+        id: "AwsSolutions-S1",
+        reason:
+          "Server access logs are not required for the webhook archive during the prototype phase",
+      },
+    ]);
+
+    // DynamoDB table for processed webhook delivery IDs.
+    // Items expire automatically, since GitHub only redelivers recent deliveries.
+    this.webhookDeliveryTable = new dynamodb.Table(
+      this,
+      "WebhookDeliveryTable",
+      {
+        partitionKey: {
+          name: "delivery_id",
+          type: dynamodb.AttributeType.STRING,
+        },
+        billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+        timeToLiveAttribute: "expires_at",
+        pointInTimeRecoverySpecification: {
+          pointInTimeRecoveryEnabled: true,
+        },
+        removalPolicy: RemovalPolicy.DESTROY,
+      },
+    );
+
     // CDK Nag suppressions
     NagSuppressions.addResourceSuppressions(
       [
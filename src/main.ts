@@ -12,11 +12,23 @@ const devEnv = {
 // Initialize CDK application
 const app = new App();
 const envName: EnvName = app.node.tryGetContext("env") || "dev";
+// Pseudonymization can be enabled per environment, e.g. `yarn deploy -c env=prod -c pseudonymization=true`
+const pseudonymization = [true, "true"].includes(
+  app.node.tryGetContext("pseudonymization"),
+);
+// GitHub App used to call the GitHub API, e.g. `yarn deploy -c githubAppId=123456`
+const githubAppId = app.node.tryGetContext("githubAppId");
 
 // Create GitHub Activity Metrics stack
 new GitHubActivityMetricsStack(app, "github-activity-metrics-aws-dev", {
   env: devEnv,
   envName,
+  pseudonymization,
+  githubApp: githubAppId ? { appId: String(githubAppId) } : undefined,
+  // Events that are never queried
+  ingestionFilter: {
+    eventTypes: { deny: ["star", "watch", "label"] },
+  },
 });
 
 // Apply CDK Nag security checks to the application
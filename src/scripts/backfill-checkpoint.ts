@@ -0,0 +1,130 @@
+import { existsSync, readFileSync, writeFileSync } from "fs";
+
+/**
+ * Resources the backfill can fetch from the GitHub REST API
+ */
+export const BACKFILL_RESOURCES = [
+  "pull_request",
+  "pull_request_review",
+  "issues",
+  "workflow_run",
+] as const;
+
+export type BackfillResource = (typeof BACKFILL_RESOURCES)[number];
+
+/**
+ * Progress of a resource of a repository
+ */
+export interface ResourceCheckpoint {
+  /**
+   * Timestamp of the last processed item, in the order the resource is listed
+   */
+  cursor?: string;
+  done: boolean;
+}
+
+/**
+ * Progress of the backfill
+ */
+export interface Checkpoint {
+  /**
+   * Start of the backfilled period (--since)
+   */
+  since: string;
+  /**
+   * Repository full name -> resource -> progress
+   */
+  repositories: Record<
+    string,
+    Partial<Record<BackfillResource, ResourceCheckpoint>>
+  >;
+}
+
+/**
+ * Load the progress of a previous backfill
+ * A dry run resumes from the saved progress but never saves its own, so the next real run still writes every item.
+ * @param path Checkpoint file
+ * @param options.since Start of the backfilled period
+ * @param options.dryRun Whether records are only printed
+ * @returns Progress, and a function that persists it
+ */
+export function loadCheckpoint(
+  path: string,
+  options: { since: Date; dryRun: boolean },
+): { checkpoint: Checkpoint; save: () => void } {
+  const since = options.since.toISOString();
+  const checkpoint: Checkpoint = existsSync(path)
+    ? JSON.parse(readFileSync(path, "utf8"))
+    : { since, repositories: {} };
+  // Resuming with another period would leave the items between both starts out
+  if (checkpoint.since !== since) {
+    throw new Error(
+      `Checkpoint ${path} was saved for --since ${checkpoint.since ?? "(unknown)"}, not ${since}. ` +
+        "Rerun with the same --since, or pass another --checkpoint to start over.",
+    );
+  }
+  const save = options.dryRun
+    ? () => {}
+    : () => writeFileSync(path, JSON.stringify(checkpoint, null, 2));
+  return { checkpoint, save };
+}
+
+/**
+ * List endpoint of a resource, ordered by a timestamp of its items
+ */
+export interface Listing<T> {
+  /**
+   * Fetch a page of items
+   * @param cursor Timestamp of the last processed item, if any
+   * @param page Page number, starting at 1
+   */
+  fetchPage: (cursor: string | undefined, page: number) => Promise<T[]>;
+  /**
+   * Whether fetchPage starts at the cursor, e.g. with a `since` or `created` filter.
+   * Such listings are read from their first page again whenever the cursor moves, so that items moving in the listing are not skipped.
+   * The other listings are read page by page from the newest item, skipping items newer than the cursor.
+   */
+  startsAtCursor: boolean;
+  /**
+   * Timestamp the listing is ordered by
+   */
+  timestampOf: (item: T) => string;
+  /**
+   * Whether no item after this page belongs to the backfill
+   */
+  isLastPage: (items: T[]) => boolean;
+}
+
+/**
+ * Process the items of a listing, resuming from the cursor of the checkpoint
+ * Each page is processed before the cursor moves on, so items of an interrupted page are processed again.
+ * @param checkpoint Progress of the resource
+ * @param saveCheckpoint Persist the progress
+ * @param listing List endpoint of the resource
+ * @param processItems Process the items of a page
+ */
+export async function backfillListing<T>(
+  checkpoint: ResourceCheckpoint,
+  saveCheckpoint: () => void,
+  listing: Listing<T>,
+  processItems: (items: T[]) => Promise<void>,
+) {
+  let page = 1;
+  while (!checkpoint.done) {
+    const cursor = checkpoint.cursor;
+    const items = await listing.fetchPage(cursor, page);
+    const pending =
+      listing.startsAtCursor || cursor === undefined
+        ? items
+        : items.filter((item) => listing.timestampOf(item) <= cursor);
+    await processItems(pending);
+
+    const last = pending[pending.length - 1];
+    const nextCursor = last ? listing.timestampOf(last) : cursor;
+    // A full page with a single timestamp would be listed again from the same cursor
+    page = listing.startsAtCursor && nextCursor !== cursor ? 1 : page + 1;
+    checkpoint.cursor = nextCursor;
+    checkpoint.done = items.length === 0 || listing.isLastPage(items);
+    saveCheckpoint();
+  }
+}
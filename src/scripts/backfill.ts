@@ -0,0 +1,340 @@
+/**
+ * Backfill historical activity from the GitHub REST API
+ *
+ * Usage:
+ *   GITHUB_TOKEN=<token> npx projen backfill --repository owner/repo [--repository ...] --since 2025-01-01
+ *     [--resource pull_request --resource pull_request_review --resource issues --resource workflow_run]
+ *     [--checkpoint .backfill-checkpoint.json] [--dry-run] [--database metrics] [--table github_webhook]
+ *
+ * Pull requests, reviews, issues and workflow runs updated since `--since` are converted into webhook-shaped payloads
+ * with the action `backfilled`, and go through the same measure extractors as webhook deliveries.
+ * Records are written at the time the activity happened.
+ *
+ * Progress is saved to the checkpoint file after each page as the timestamp of the last processed item,
+ * so an interrupted backfill resumes where it stopped. The checkpoint can only be resumed with the same `--since`.
+ * A dry run does not save its progress.
+ * Requests wait for the rate limit to reset when it runs low, and transient server errors are retried.
+ */
+import { parseArgs } from "util";
+import type { Octokit } from "@octokit/rest";
+import {
+  BACKFILL_RESOURCES,
+  BackfillResource,
+  ResourceCheckpoint,
+  backfillListing,
+  loadCheckpoint,
+} from "./backfill-checkpoint";
+import { createGitHubClient } from "../lambdas/common/github-client";
+import {
+  loadPseudonymizer,
+  savePseudonyms,
+} from "../lambdas/common/pseudonymization";
+import { getMeasures } from "../lambdas/webhook-worker/measures";
+import {
+  buildTimestreamRecords,
+  sendToTimestream,
+  toWebhookData,
+} from "../lambdas/webhook-worker/timestream";
+
+// Items per page of the list endpoints
+const PER_PAGE = 100;
+
+/**
+ * Options shared by the backfill of every resource
+ */
+interface BackfillContext {
+  octokit: Octokit;
+  owner: string;
+  repo: string;
+  repository: any;
+  organization: any;
+  since: Date;
+  write: (eventType: string, id: string, payload: any) => Promise<void>;
+}
+
+/**
+ * Backfill a resource of a repository
+ * @param resource Resource to backfill
+ * @param context Repository and clients
+ * @param checkpoint Progress of the resource
+ * @param saveCheckpoint Persist the progress
+ */
+async function backfillResource(
+  resource: BackfillResource,
+  context: BackfillContext,
+  checkpoint: ResourceCheckpoint,
+  saveCheckpoint: () => void,
+) {
+  const { octokit, owner, repo, since, write } = context;
+  const common = {
+    action: "backfilled",
+    repository: context.repository,
+    ...(context.organization ? { organization: context.organization } : {}),
+  };
+  const isRecent = (updatedAt: string) => new Date(updatedAt) >= since;
+
+  // Pull requests cannot be listed from a time on. They are listed from the most recently updated,
+  // and the listing stops at the first one older than `since`.
+  const pullRequestListing = {
+    fetchPage: async (_cursor: string | undefined, page: number) =>
+      (
+        await octokit.pulls.list({
+          owner,
+          repo,
+          state: "all",
+          sort: "updated",
+          direction: "desc",
+          per_page: PER_PAGE,
+          page,
+        })
+      ).data,
+    startsAtCursor: false,
+    timestampOf: (pullRequest: { updated_at: string }) =>
+      pullRequest.updated_at,
+    isLastPage: (pullRequests: { updated_at: string }[]) =>
+      pullRequests.length < PER_PAGE ||
+      !isRecent(pullRequests[pullRequests.length - 1].updated_at),
+  };
+
+  switch (resource) {
+    case "pull_request":
+      return backfillListing(
+        checkpoint,
+        saveCheckpoint,
+        pullRequestListing,
+        async (pullRequests) => {
+          for (const listed of pullRequests.filter((pr) =>
+            isRecent(pr.updated_at),
+          )) {
+            // The detailed object has the counters of the webhook payload
+            const { data: pullRequest } = await octokit.pulls.get({
+              owner,
+              repo,
+              pull_number: listed.number,
+            });
+            await write("pull_request", String(pullRequest.id), {
+              ...common,
+              number: pullRequest.number,
+              pull_request: pullRequest,
+              sender: pullRequest.user,
+            });
+          }
+        },
+      );
+    case "pull_request_review":
+      return backfillListing(
+        checkpoint,
+        saveCheckpoint,
+        pullRequestListing,
+        async (pullRequests) => {
+          for (const pullRequest of pullRequests.filter((pr) =>
+            isRecent(pr.updated_at),
+          )) {
+            const reviews = await octokit.paginate(octokit.pulls.listReviews, {
+              owner,
+              repo,
+              pull_number: pullRequest.number,
+              per_page: PER_PAGE,
+            });
+            for (const review of reviews.filter(
+              (r) => r.submitted_at && isRecent(r.submitted_at),
+            )) {
+              await write("pull_request_review", String(review.id), {
+                ...common,
+                review,
+                pull_request: pullRequest,
+                sender: review.user,
+              });
+            }
+          }
+        },
+      );
+    case "issues":
+      // Issues are listed from the least recently updated since the cursor
+      return backfillListing(
+        checkpoint,
+        saveCheckpoint,
+        {
+          fetchPage: async (cursor, page) =>
+            (
+              await octokit.issues.listForRepo({
+                owner,
+                repo,
+                state: "all",
+                sort: "updated",
+                direction: "asc",
+                since: cursor ?? since.toISOString(),
+                per_page: PER_PAGE,
+                page,
+              })
+            ).data,
+          startsAtCursor: true,
+          timestampOf: (issue) => issue.updated_at,
+          isLastPage: (issues) => issues.length < PER_PAGE,
+        },
+        async (issues) => {
+          // Pull requests are also listed as issues
+          for (const issue of issues.filter((i) => !i.pull_request)) {
+            await write("issues", String(issue.id), {
+              ...common,
+              issue,
+              sender: issue.user,
+            });
+          }
+        },
+      );
+    case "workflow_run":
+      // Runs are listed from the most recently created until the cursor.
+      // Narrowing the range as the cursor moves keeps each search within the first 1,000 results GitHub returns.
+      return backfillListing(
+        checkpoint,
+        saveCheckpoint,
+        {
+          fetchPage: async (cursor, page) =>
+            (
+              await octokit.actions.listWorkflowRunsForRepo({
+                owner,
+                repo,
+                created: cursor
+                  ? `${since.toISOString()}..${cursor}`
+                  : `>=${since.toISOString()}`,
+                per_page: PER_PAGE,
+                page,
+              })
+            ).data.workflow_runs,
+          startsAtCursor: true,
+          timestampOf: (run) => run.created_at,
+          isLastPage: (runs) => runs.length < PER_PAGE,
+        },
+        async (runs) => {
+          for (const run of runs) {
+            await write("workflow_run", String(run.id), {
+              ...common,
+              workflow_run: run,
+              sender: run.actor,
+            });
+          }
+        },
+      );
+  }
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      "repository": { type: "string", multiple: true },
+      "since": { type: "string" },
+      "resource": { type: "string", multiple: true },
+      "checkpoint": { type: "string", default: ".backfill-checkpoint.json" },
+      "dry-run": { type: "boolean", default: false },
+      "database": { type: "string", default: "metrics" },
+      "table": { type: "string", default: "github_webhook" },
+    },
+  });
+
+  if (!values.repository || !values.since) {
+    throw new Error("--repository and --since are required");
+  }
+  if (!process.env.GITHUB_TOKEN) {
+    throw new Error("GITHUB_TOKEN is required");
+  }
+  const since = new Date(values.since);
+  if (Number.isNaN(since.getTime())) {
+    throw new Error("--since must be a date (e.g. 2025-01-01)");
+  }
+  const resources = (values.resource ?? [...BACKFILL_RESOURCES]).map(
+    (resource) => {
+      if (!BACKFILL_RESOURCES.includes(resource as BackfillResource)) {
+        throw new Error(
+          `--resource must be one of ${BACKFILL_RESOURCES.join(", ")}`,
+        );
+      }
+      return resource as BackfillResource;
+    },
+  );
+
+  const { checkpoint, save: saveCheckpoint } = loadCheckpoint(
+    values.checkpoint,
+    { since, dryRun: values["dry-run"] },
+  );
+
+  // A backfill waits for the rate limit to reset rather than giving up
+  const octokit = await createGitHubClient({
+    auth: process.env.GITHUB_TOKEN,
+    maxWaitMilliseconds: Infinity,
+  });
+
+  const pseudonymizer = await loadPseudonymizer();
+  const version = Date.now();
+  let written = 0;
+
+  for (const fullName of values.repository) {
+    const [owner, repo] = fullName.split("/");
+    const { data: repository } = await octokit.repos.get({ owner, repo });
+    const context: BackfillContext = {
+      octokit,
+      owner,
+      repo,
+      repository,
+      organization:
+        repository.owner.type === "Organization"
+          ? { login: repository.owner.login, id: repository.owner.id }
+          : undefined,
+      since,
+      write: async (eventType, id, payload) => {
+        const measures = getMeasures(eventType, payload, { pseudonymizer });
+        if (!measures) {
+          return;
+        }
+        // Deterministic delivery IDs make a rerun overwrite the records of the previous one
+        const data = toWebhookData(
+          eventType,
+          `backfill-${eventType}-${id}`,
+          payload,
+        );
+        const options = {
+          time: version,
+          ingestedAt: version,
+          version,
+          pseudonymizer,
+        };
+        if (values["dry-run"]) {
+          const records = buildTimestreamRecords(data, measures, options);
+          console.log(
+            JSON.stringify({ deliveryId: data.delivery_id, records }),
+          );
+        } else {
+          await sendToTimestream(
+            data,
+            measures,
+            values.database,
+            values.table,
+            options,
+          );
+        }
+        written++;
+      },
+    };
+
+    for (const resource of resources) {
+      checkpoint.repositories[fullName] ??= {};
+      const progress = (checkpoint.repositories[fullName][resource] ??= {
+        done: false,
+      });
+      console.error(`Backfilling ${resource} of ${fullName}`);
+      await backfillResource(resource, context, progress, saveCheckpoint);
+    }
+    if (pseudonymizer && !values["dry-run"]) {
+      await savePseudonyms(process.env.PSEUDONYM_TABLE_NAME, pseudonymizer);
+    }
+  }
+
+  console.error(
+    `${values["dry-run"] ? "Generated records for" : "Backfilled"} ${written} items`,
+  );
+}
+
+main().catch((error) => {
+  console.error("Backfill failed:", error);
+  process.exitCode = 1;
+});
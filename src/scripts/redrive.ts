@@ -0,0 +1,42 @@
+/**
+ * Move messages from a dead-letter queue back to their source queue
+ *
+ * Usage:
+ *   npx projen redrive --source-arn <dead-letter queue ARN> [--destination-arn <queue ARN>]
+ *
+ * The dead-letter queue ARN of webhook deliveries is output by the stack as `WebhookDeadLetterQueueArn`.
+ * Without `--destination-arn`, messages are moved back to the queue they originally came from.
+ *
+ * Messages of failed GitHub API enrichments are sent to `GitHubApiDeferredDeadLetterQueueArn` by the SNS handler itself,
+ * so they must be moved with `--destination-arn` set to `GitHubApiDeferredQueueArn`.
+ */
+import { parseArgs } from "util";
+import { SQSClient, StartMessageMoveTaskCommand } from "@aws-sdk/client-sqs";
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      "source-arn": { type: "string" },
+      "destination-arn": { type: "string" },
+    },
+  });
+
+  if (!values["source-arn"]) {
+    throw new Error("--source-arn is required");
+  }
+
+  const sqsClient = new SQSClient({});
+  const response = await sqsClient.send(
+    new StartMessageMoveTaskCommand({
+      SourceArn: values["source-arn"],
+      DestinationArn: values["destination-arn"],
+    }),
+  );
+
+  console.error(`Started message move task ${response.TaskHandle}`);
+}
+
+main().catch((error) => {
+  console.error("Redrive failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,145 @@
+/**
+ * Re-run measure extraction over archived webhook deliveries
+ *
+ * Usage:
+ *   npx projen replay --bucket <archive bucket> --from 2025-05-01 [--to 2025-05-31]
+ *     [--event pull_request ...] [--repository owner/repo ...]
+ *     [--dry-run] [--database metrics] [--table github_webhook]
+ *
+ * Records are written at the time the event happened, or the time the delivery was originally received if it cannot be resolved.
+ * They are written with a higher version than existing records, so that re-extracted records overwrite the previous ones.
+ * With `--dry-run`, the generated records are printed as JSON lines instead of being written.
+ *
+ * When `PSEUDONYMIZATION_KEY_PARAMETER_NAME` is set, logins and user IDs are pseudonymized as by the webhook worker,
+ * and the tokens are stored in the `PSEUDONYM_TABLE_NAME` table.
+ */
+import { parseArgs } from "util";
+import {
+  loadPseudonymizer,
+  savePseudonyms,
+} from "../lambdas/common/pseudonymization";
+import {
+  archivePartitionPrefix,
+  getArchivedDelivery,
+  listArchivedDeliveryKeys,
+  listArchivedEventTypes,
+} from "../lambdas/common/webhook-archive";
+import { getMeasures } from "../lambdas/webhook-worker/measures";
+import {
+  buildTimestreamRecords,
+  sendToTimestream,
+  toWebhookData,
+} from "../lambdas/webhook-worker/timestream";
+
+const DAY_IN_MILLISECONDS = 24 * 60 * 60 * 1000;
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      "bucket": { type: "string", default: process.env.ARCHIVE_BUCKET_NAME },
+      "from": { type: "string" },
+      "to": { type: "string" },
+      "event": { type: "string", multiple: true },
+      "repository": { type: "string", multiple: true },
+      "dry-run": { type: "boolean", default: false },
+      "database": { type: "string", default: "metrics" },
+      "table": { type: "string", default: "github_webhook" },
+    },
+  });
+
+  if (!values.bucket || !values.from) {
+    throw new Error("--bucket and --from are required");
+  }
+  const from = new Date(values.from);
+  const to = values.to ? new Date(values.to) : new Date();
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+    throw new Error("--from and --to must be dates (e.g. 2025-05-01)");
+  }
+
+  const eventTypes =
+    values.event ?? (await listArchivedEventTypes(values.bucket));
+  const pseudonymizer = await loadPseudonymizer();
+  const version = Date.now();
+  let replayed = 0;
+
+  for (const eventType of eventTypes) {
+    for (
+      let day = Date.UTC(
+        from.getUTCFullYear(),
+        from.getUTCMonth(),
+        from.getUTCDate(),
+      );
+      day <= to.getTime();
+      day += DAY_IN_MILLISECONDS
+    ) {
+      const keys = await listArchivedDeliveryKeys(
+        values.bucket,
+        archivePartitionPrefix(eventType, new Date(day)),
+      );
+
+      for (const key of keys) {
+        const delivery = await getArchivedDelivery(values.bucket, key);
+        const receivedAt = Date.parse(delivery.receivedAt);
+        if (receivedAt < from.getTime() || receivedAt > to.getTime()) {
+          continue;
+        }
+        if (
+          values.repository &&
+          !values.repository.includes(delivery.payload.repository?.full_name)
+        ) {
+          continue;
+        }
+
+        const measures = getMeasures(delivery.eventType, delivery.payload, {
+          pseudonymizer,
+        });
+        if (!measures) {
+          console.error(`Skipping ${key}: event type is not supported`);
+          continue;
+        }
+        const data = toWebhookData(
+          delivery.eventType,
+          delivery.deliveryId,
+          delivery.payload,
+        );
+
+        if (values["dry-run"]) {
+          const records = buildTimestreamRecords(data, measures, {
+            time: receivedAt,
+            ingestedAt: receivedAt,
+            pseudonymizer,
+          });
+          console.log(
+            JSON.stringify({ deliveryId: delivery.deliveryId, records }),
+          );
+        } else {
+          await sendToTimestream(
+            data,
+            measures,
+            values.database,
+            values.table,
+            {
+              time: receivedAt,
+              ingestedAt: receivedAt,
+              version,
+              pseudonymizer,
+            },
+          );
+        }
+        replayed++;
+      }
+    }
+    if (pseudonymizer && !values["dry-run"]) {
+      await savePseudonyms(process.env.PSEUDONYM_TABLE_NAME, pseudonymizer);
+    }
+  }
+
+  console.error(
+    `${values["dry-run"] ? "Generated records for" : "Replayed"} ${replayed} deliveries`,
+  );
+}
+
+main().catch((error) => {
+  console.error("Replay failed:", error);
+  process.exitCode = 1;
+});
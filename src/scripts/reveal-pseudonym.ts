@@ -0,0 +1,46 @@
+/**
+ * Look up the GitHub logins and user IDs behind pseudonymized tokens
+ *
+ * Usage:
+ *   npx projen reveal-pseudonym --table <pseudonym table> --token <token> [--token <token> ...]
+ *
+ * The table name is output by the stack as `PseudonymTableName` when pseudonymization is enabled.
+ * Reading the table requires the managed policy output as `PseudonymReverseLookupPolicyArn`.
+ */
+import { parseArgs } from "util";
+import { DynamoDBClient, GetItemCommand } from "@aws-sdk/client-dynamodb";
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      table: { type: "string", default: process.env.PSEUDONYM_TABLE_NAME },
+      token: { type: "string", multiple: true },
+    },
+  });
+
+  if (!values.table || !values.token) {
+    throw new Error("--table and --token are required");
+  }
+
+  const dynamoDBClient = new DynamoDBClient({});
+  for (const token of values.token) {
+    const { Item: item } = await dynamoDBClient.send(
+      new GetItemCommand({
+        TableName: values.table,
+        Key: { token: { S: token } },
+      }),
+    );
+    console.log(
+      JSON.stringify({
+        token,
+        kind: item?.kind?.S ?? null,
+        value: item?.value?.S ?? null,
+      }),
+    );
+  }
+}
+
+main().catch((error) => {
+  console.error("Lookup failed:", error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,82 @@
+/**
+ * Rotate the webhook secret
+ *
+ * Usage:
+ *   npx projen rotate-webhook-secret [--parameter /github/metrics/secret-token]
+ *     [--org <organization> --hook-id <id> | --repository <owner/repo> --hook-id <id>]
+ *
+ * A new secret is generated and stored as a new version of the SSM parameter.
+ * The webhook handler then accepts deliveries signed with either the new or the previous secret during the grace period.
+ * With `--hook-id`, the secret of the webhook is also updated on GitHub using the token in the `GITHUB_TOKEN` environment variable.
+ * Otherwise the new secret is printed to update the webhook on GitHub manually within the grace period.
+ */
+import { randomBytes } from "crypto";
+import { parseArgs } from "util";
+import { PutParameterCommand, SSMClient } from "@aws-sdk/client-ssm";
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      "parameter": { type: "string", default: "/github/metrics/secret-token" },
+      "org": { type: "string" },
+      "repository": { type: "string" },
+      "hook-id": { type: "string" },
+    },
+  });
+
+  const hookId = values["hook-id"] ? Number(values["hook-id"]) : undefined;
+  if (hookId !== undefined && !values.org && !values.repository) {
+    throw new Error("--hook-id requires --org or --repository");
+  }
+  if (hookId !== undefined && !process.env.GITHUB_TOKEN) {
+    throw new Error("GITHUB_TOKEN is required to update the webhook");
+  }
+
+  const secret = randomBytes(32).toString("hex");
+
+  // Store the new secret first, so that the handler accepts it before GitHub starts signing with it
+  const ssmClient = new SSMClient({});
+  const { Version: version } = await ssmClient.send(
+    new PutParameterCommand({
+      Name: values.parameter,
+      Value: secret,
+      Type: "SecureString",
+      Overwrite: true,
+    }),
+  );
+  console.error(
+    `Stored the new secret as version ${version} of ${values.parameter}`,
+  );
+
+  if (hookId === undefined) {
+    console.error(
+      "Update the secret of the webhook on GitHub before the grace period elapses:",
+    );
+    console.log(secret);
+    return;
+  }
+
+  const { Octokit } = await import("@octokit/rest");
+  const octokit = new Octokit({ auth: process.env.GITHUB_TOKEN });
+  if (values.org) {
+    await octokit.orgs.updateWebhookConfigForOrg({
+      org: values.org,
+      hook_id: hookId,
+      secret,
+    });
+  } else {
+    const [owner, repo] = values.repository!.split("/");
+    await octokit.repos.updateWebhookConfigForRepo({
+      owner,
+      repo,
+      hook_id: hookId,
+      secret,
+    });
+  }
+  console.error(`Updated the secret of webhook ${hookId} on GitHub`);
+}
+
+main().catch((error) => {
+  console.error("Rotation failed:", error);
+  process.exitCode = 1;
+});
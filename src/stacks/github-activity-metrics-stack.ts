@@ -1,20 +1,80 @@
 import * as path from "path";
-import { Stack, StackProps, CfnOutput, Duration } from "aws-cdk-lib";
+import {
+  Stack,
+  StackProps,
+  CfnOutput,
+  Duration,
+  RemovalPolicy,
+} from "aws-cdk-lib";
+import * as dynamodb from "aws-cdk-lib/aws-dynamodb";
+import * as events from "aws-cdk-lib/aws-events";
+import * as eventsTargets from "aws-cdk-lib/aws-events-targets";
 import * as iam from "aws-cdk-lib/aws-iam";
 import * as lambda from "aws-cdk-lib/aws-lambda";
+import * as lambdaEventSources from "aws-cdk-lib/aws-lambda-event-sources";
 import { NodejsFunction } from "aws-cdk-lib/aws-lambda-nodejs";
-import * as ssm from "aws-cdk-lib/aws-ssm";
 import * as sns from "aws-cdk-lib/aws-sns";
 import * as snsSubs from "aws-cdk-lib/aws-sns-subscriptions";
+import * as sqs from "aws-cdk-lib/aws-sqs";
+import * as ssm from "aws-cdk-lib/aws-ssm";
 import { NagSuppressions } from "cdk-nag";
 import { Construct } from "constructs";
+import { DoraMetricsConfig } from "../lambdas/common/dora-config";
+import { HOOK_IP_RANGES_PARAMETER_NAME } from "../lambdas/common/github-ip-ranges";
+import { IngestionFilter } from "../lambdas/common/ingestion-filter";
 import { Api } from "../lib/api";
+import { CustomDataApi } from "../lib/custom-data-api";
 import { EnvName } from "../lib/envName";
 import { Storage } from "../lib/storage";
-import { CustomDataApi } from "../lib/custom-data-api";
 
 export interface GitHubActivityMetricsStackProps extends StackProps {
   envName: EnvName;
+  /**
+   * Period after a webhook secret rotation during which deliveries signed with the previous secret are still accepted
+   * @default Duration.hours(24)
+   */
+  webhookSecretGracePeriod?: Duration;
+  /**
+   * Filter applied to webhook deliveries before they are ingested.
+   * Filtered deliveries are acknowledged with `200` and counted in the `FilteredDeliveries` metric.
+   * They are still archived, so they can be replayed after the filter is loosened.
+   * @default - every delivery is ingested
+   */
+  ingestionFilter?: IngestionFilter;
+  /**
+   * Replace GitHub logins and user IDs with keyed HMAC tokens before they are written to Timestream.
+   * The key is read from the SecureString parameter `/github/metrics/pseudonymization-key`, which must be registered beforehand.
+   * @default false
+   */
+  pseudonymization?: boolean;
+  /**
+   * Logins of service accounts classified as `bot` in the `actor_kind` dimension, in addition to GitHub App bot accounts
+   * @default - no service account
+   */
+  knownServiceAccounts?: string[];
+  /**
+   * GitHub App used to call the GitHub API instead of the personal access token `/github/metrics/github-token`.
+   * The personal access token is still used for organizations the GitHub App is not installed on, if it is registered.
+   * @default - the personal access token is used
+   */
+  githubApp?: GitHubAppProps;
+  /**
+   * Definitions of the DORA metrics rolled up daily and weekly into the `dora_metrics` table
+   * @default - production environments named `production`, failed states `failure` and `error`, and issues labelled `incident`
+   */
+  doraMetrics?: DoraMetricsConfig;
+}
+
+export interface GitHubAppProps {
+  /**
+   * GitHub App ID
+   */
+  appId: string;
+  /**
+   * SSM SecureString parameter holding the PEM-encoded private key of the GitHub App
+   * @default "/github/metrics/github-app-private-key"
+   */
+  privateKeyParameterName?: string;
 }
 
 export class GitHubActivityMetricsStack extends Stack {
@@ -29,13 +89,17 @@ export class GitHubActivityMetricsStack extends Stack {
     const githubWebHookTimestreamTableName = "github_webhook";
     const customDataTimestreamTableName = "custom_data";
     const githubAPIResultTimestreamTableName = "github_api_result";
+    const prLifecycleTimestreamTableName = "pr_lifecycle";
+    const doraMetricsTimestreamTableName = "dora_metrics";
 
     // Create storage resources (Timestream database and tables)
-    new Storage(this, "Storage", {
+    const storage = new Storage(this, "Storage", {
       databaseName: timestreamDatabaseName,
       githubWebHookTableName: githubWebHookTimestreamTableName,
       customDataTableName: customDataTimestreamTableName,
       githubAPIResultTableName: githubAPIResultTimestreamTableName,
+      prLifecycleTableName: prLifecycleTimestreamTableName,
+      doraMetricsTableName: doraMetricsTimestreamTableName,
     });
 
     // Reference GitHub Webhook secret from SSM Parameter Store
@@ -44,11 +108,17 @@ export class GitHubActivityMetricsStack extends Stack {
         this,
         "GitHubWebhookSecret",
         {
+          // The latest version is the current secret. The previous version is accepted during the grace period.
           parameterName: "/github/metrics/secret-token",
-          version: 1, // Specify a specific version or use the latest if unspecified
         },
       );
 
+    // SSM path of secrets mapped to organizations (orgs/<organization>) and repositories (repos/<owner>/<repo>)
+    const webhookSecretsPath = "/github/metrics/webhook-secrets";
+
+    const webhookSecretGracePeriod =
+      props.webhookSecretGracePeriod ?? Duration.hours(24);
+
     // Create an SNS topic for GitHub activity notifications
     const githubActivityTopic = new sns.Topic(this, "GitHubActivityTopic", {
       displayName: `call-github-api`,
@@ -56,17 +126,165 @@ export class GitHubActivityMetricsStack extends Stack {
       enforceSSL: true,
     });
 
-    // Lambda function - Validates GitHub webhooks and sends data to Timestream
+    // IP ranges GitHub delivers webhooks from, created and kept up to date by the GitHub meta sync job.
+    // The parameter is not managed by the stack, so that deployments do not reset the synchronized ranges.
+    const hookIpRangesParam = ssm.StringParameter.fromStringParameterName(
+      this,
+      "GitHubHookIpRanges",
+      HOOK_IP_RANGES_PARAMETER_NAME,
+    );
+
+    // Create an SNS topic for operational alerts
+    const alertTopic = new sns.Topic(this, "AlertTopic", {
+      displayName: "github-activity-metrics-alert",
+      enforceSSL: true,
+    });
+
+    // Lambda function - Synchronizes the webhook IP allowlist with GitHub's /meta endpoint
+    const githubMetaSync = new NodejsFunction(this, "GitHubMetaSync", {
+      runtime: lambda.Runtime.NODEJS_22_X,
+      handler: "handler",
+      entry: path.join(__dirname, "../lambdas/github-meta-sync/index.ts"),
+      environment: {
+        HOOK_IP_RANGES_PARAMETER_NAME: hookIpRangesParam.parameterName,
+        ALERT_TOPIC_ARN: alertTopic.topicArn,
+      },
+      timeout: Duration.seconds(30),
+      memorySize: 128,
+      description: "Synchronizes the webhook IP allowlist with GitHub /meta",
+      bundling: {
+        minify: true,
+        sourceMap: true,
+        externalModules: ["aws-sdk"],
+        // Bundle only the required AWS SDK v3 modules
+        nodeModules: [
+          "@aws-sdk/client-ssm",
+          "@aws-sdk/client-sns",
+          "@octokit/rest",
+        ],
+      },
+    });
+
+    hookIpRangesParam.grantRead(githubMetaSync);
+    hookIpRangesParam.grantWrite(githubMetaSync);
+    alertTopic.grantPublish(githubMetaSync);
+
+    // Check the ranges every hour
+    new events.Rule(this, "GitHubMetaSyncSchedule", {
+      schedule: events.Schedule.rate(Duration.hours(1)),
+      targets: [new eventsTargets.LambdaFunction(githubMetaSync)],
+    });
+
+    // Dead-letter queue for deliveries the worker repeatedly fails to process
+    const webhookDeadLetterQueue = new sqs.Queue(
+      this,
+      "WebhookDeadLetterQueue",
+      {
+        encryption: sqs.QueueEncryption.SQS_MANAGED,
+        enforceSSL: true,
+        retentionPeriod: Duration.days(14),
+      },
+    );
+
+    // Queue decoupling webhook acknowledgement from measure extraction
+    const webhookQueueMaxReceiveCount = 5;
+    const webhookQueue = new sqs.Queue(this, "WebhookQueue", {
+      encryption: sqs.QueueEncryption.SQS_MANAGED,
+      enforceSSL: true,
+      // Must exceed the worker timeout so in-flight messages are not redelivered
+      visibilityTimeout: Duration.seconds(180),
+      deadLetterQueue: {
+        queue: webhookDeadLetterQueue,
+        maxReceiveCount: webhookQueueMaxReceiveCount,
+      },
+    });
+
+    NagSuppressions.addResourceSuppressions(webhookDeadLetterQueue, [
+      {
+        id: "AwsSolutions-SQS3",
+        reason: "This queue is itself the dead-letter queue of WebhookQueue",
+      },
+    ]);
+
+    // Lambda function - Validates GitHub webhooks and enqueues them for processing
     const webhookHandler = new NodejsFunction(this, "WebhookHandler", {
       runtime: lambda.Runtime.NODEJS_22_X,
       handler: "handler",
       entry: path.join(__dirname, "../lambdas/webhook-handler/index.ts"),
+      environment: {
+        ARCHIVE_BUCKET_NAME: storage.webhookArchiveBucket.bucketName,
+        DELIVERY_TABLE_NAME: storage.webhookDeliveryTable.tableName,
+        WEBHOOK_QUEUE_URL: webhookQueue.queueUrl,
+        INGESTION_FILTER: JSON.stringify(props.ingestionFilter ?? {}),
+        WEBHOOK_SECRET_PARAMETER_NAME: webhookSecretParam.parameterName,
+        WEBHOOK_SECRETS_PATH: webhookSecretsPath,
+        WEBHOOK_SECRET_GRACE_PERIOD_SECONDS: webhookSecretGracePeriod
+          .toSeconds()
+          .toString(),
+        HOOK_IP_RANGES_PARAMETER_NAME: hookIpRangesParam.parameterName,
+      },
+      timeout: Duration.seconds(30),
+      memorySize: 256,
+      bundling: {
+        minify: true,
+        sourceMap: true,
+        externalModules: ["aws-sdk"],
+        // Bundle only the required AWS SDK v3 modules
+        nodeModules: [
+          "@aws-sdk/client-ssm",
+          "@aws-sdk/client-s3",
+          "@aws-sdk/client-dynamodb",
+          "@aws-sdk/client-sqs",
+        ],
+      },
+    });
+
+    // Grant SSM parameter read permission to the Lambda function
+    webhookSecretParam.grantRead(webhookHandler);
+
+    // Grant webhook lambda permission to read the secrets mapped to organizations and repositories
+    webhookHandler.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["ssm:GetParametersByPath", "ssm:GetParameter"],
+        resources: [
+          `arn:aws:ssm:${this.region}:${this.account}:parameter${webhookSecretsPath}`,
+          `arn:aws:ssm:${this.region}:${this.account}:parameter${webhookSecretsPath}/*`,
+        ],
+      }),
+    );
+
+    // Grant webhook lambda permission to read the IP allowlist
+    hookIpRangesParam.grantRead(webhookHandler);
+
+    // Grant webhook lambda permission to archive deliveries
+    storage.webhookArchiveBucket.grantPut(webhookHandler);
+
+    // Grant webhook lambda permission to record processed deliveries
+    storage.webhookDeliveryTable.grant(
+      webhookHandler,
+      "dynamodb:PutItem",
+      "dynamodb:DeleteItem",
+    );
+
+    // Grant webhook lambda permission to enqueue deliveries
+    webhookQueue.grantSendMessages(webhookHandler);
+
+    // Lambda function - Extracts measures from queued webhooks and sends data to Timestream
+    const webhookWorker = new NodejsFunction(this, "WebhookWorker", {
+      runtime: lambda.Runtime.NODEJS_22_X,
+      handler: "handler",
+      entry: path.join(__dirname, "../lambdas/webhook-worker/index.ts"),
       environment: {
         TIMESTREAM_DATABASE_NAME: timestreamDatabaseName,
         TIMESTREAM_TABLE_NAME: githubWebHookTimestreamTableName,
         SNS_TOPIC_ARN: githubActivityTopic.topicArn,
+        ARCHIVE_BUCKET_NAME: storage.webhookArchiveBucket.bucketName,
+        DELIVERY_TABLE_NAME: storage.webhookDeliveryTable.tableName,
+        WEBHOOK_QUEUE_MAX_RECEIVE_COUNT: webhookQueueMaxReceiveCount.toString(),
+        KNOWN_SERVICE_ACCOUNTS: (props.knownServiceAccounts ?? []).join(","),
+        PR_LIFECYCLE_TABLE_NAME: prLifecycleTimestreamTableName,
       },
-      timeout: Duration.seconds(30),
+      timeout: Duration.seconds(60),
       memorySize: 256,
       bundling: {
         minify: true,
@@ -74,25 +292,60 @@ export class GitHubActivityMetricsStack extends Stack {
         externalModules: ["aws-sdk"],
         // Bundle only the required AWS SDK v3 modules
         nodeModules: [
-          "@aws-sdk/client-ssm",
           "@aws-sdk/client-timestream-write",
+          "@aws-sdk/client-timestream-query",
           "@aws-sdk/client-sns",
+          "@aws-sdk/client-s3",
+          "@aws-sdk/client-dynamodb",
         ],
       },
     });
 
-    // Grant SSM parameter read permission to the Lambda function
-    webhookSecretParam.grantRead(webhookHandler);
+    webhookWorker.addEventSource(
+      new lambdaEventSources.SqsEventSource(webhookQueue, {
+        batchSize: 10,
+        reportBatchItemFailures: true,
+      }),
+    );
 
-    // Grant webhook lambda permission to publish to SNS topic
-    githubActivityTopic.grantPublish(webhookHandler);
+    // Grant worker lambda permission to read archived deliveries
+    storage.webhookArchiveBucket.grantRead(webhookWorker);
 
-    // Grant Timestream write permissions to the Lambda function
+    // Grant worker lambda permission to publish to SNS topic
+    githubActivityTopic.grantPublish(webhookWorker);
+
+    // Grant worker lambda permission to release deliveries that finally failed
+    storage.webhookDeliveryTable.grant(webhookWorker, "dynamodb:DeleteItem");
+
+    // Grant Timestream write permissions to the worker Lambda function
     this.addTimestreamWritePermissionsToLambda(
-      webhookHandler,
+      webhookWorker,
       timestreamDatabaseName,
       githubWebHookTimestreamTableName,
     );
+    storage.timestreamRejectedRecordsBucket.grantPut(
+      webhookWorker,
+      `${githubWebHookTimestreamTableName}/*`,
+    );
+
+    // Grant the worker permission to derive pull request lifecycle metrics from the stored reviews
+    webhookWorker.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["timestream:Select"],
+        resources: [
+          `arn:aws:timestream:${this.region}:${this.account}:database/${timestreamDatabaseName}/table/${githubWebHookTimestreamTableName}`,
+        ],
+      }),
+    );
+    this.addTimestreamWritePermissionsToLambda(
+      webhookWorker,
+      timestreamDatabaseName,
+      prLifecycleTimestreamTableName,
+    );
+    storage.timestreamRejectedRecordsBucket.grantPut(
+      webhookWorker,
+      `${prLifecycleTimestreamTableName}/*`,
+    );
 
     // API Gateway
     const api = new Api(this, "ApiGateway", {
@@ -131,6 +384,10 @@ export class GitHubActivityMetricsStack extends Stack {
       timestreamDatabaseName,
       customDataTimestreamTableName,
     );
+    storage.timestreamRejectedRecordsBucket.grantPut(
+      customDataApiHandler,
+      `${customDataTimestreamTableName}/*`,
+    );
 
     // Create Custom Data API with API Key authentication
     const customDataApi = new CustomDataApi(this, "CustomDataApiGateway", {
@@ -145,6 +402,25 @@ export class GitHubActivityMetricsStack extends Stack {
       description: "URL for configuring GitHub Webhook",
     });
 
+    // Output the bucket name of the webhook archive
+    new CfnOutput(this, "WebhookArchiveBucketName", {
+      value: storage.webhookArchiveBucket.bucketName,
+      description: "S3 bucket where raw webhook payloads are archived",
+    });
+
+    // Output the dead-letter queue of webhook deliveries for redrive
+    new CfnOutput(this, "WebhookDeadLetterQueueArn", {
+      value: webhookDeadLetterQueue.queueArn,
+      description:
+        "SQS dead-letter queue of webhook deliveries that failed processing",
+    });
+
+    // Output the alert topic so that operators can subscribe to it
+    new CfnOutput(this, "AlertTopicArn", {
+      value: alertTopic.topicArn,
+      description: "SNS topic notified when GitHub webhook IP ranges change",
+    });
+
     // Output Custom Data API URL
     new CfnOutput(this, "CustomDataApiEndpoint", {
       value: customDataApi.apiUrl,
@@ -162,17 +438,76 @@ export class GitHubActivityMetricsStack extends Stack {
         },
       );
 
+    // Dead-letter queue for messages the SNS handler fails to process, with the error in their message attributes
+    const githubApiDeferredDeadLetterQueue = new sqs.Queue(
+      this,
+      "GitHubApiDeferredDeadLetterQueue",
+      {
+        encryption: sqs.QueueEncryption.SQS_MANAGED,
+        enforceSSL: true,
+        retentionPeriod: Duration.days(14),
+      },
+    );
+
+    // Queue holding messages deferred until the GitHub API rate limit resets
+    const githubApiDeferredQueue = new sqs.Queue(
+      this,
+      "GitHubApiDeferredQueue",
+      {
+        encryption: sqs.QueueEncryption.SQS_MANAGED,
+        enforceSSL: true,
+        // Must exceed the SNS handler timeout so in-flight messages are not redelivered
+        visibilityTimeout: Duration.seconds(90),
+        deadLetterQueue: {
+          queue: githubApiDeferredDeadLetterQueue,
+          maxReceiveCount: 5,
+        },
+      },
+    );
+
+    NagSuppressions.addResourceSuppressions(githubApiDeferredDeadLetterQueue, [
+      {
+        id: "AwsSolutions-SQS3",
+        reason:
+          "This queue is itself the dead-letter queue of GitHubApiDeferredQueue",
+      },
+    ]);
+
+    // Queue of messages rejected by the SNS handler because they do not match the message schema
+    const invalidActivityMessageQueue = new sqs.Queue(
+      this,
+      "InvalidActivityMessageQueue",
+      {
+        encryption: sqs.QueueEncryption.SQS_MANAGED,
+        enforceSSL: true,
+        retentionPeriod: Duration.days(14),
+      },
+    );
+
+    NagSuppressions.addResourceSuppressions(invalidActivityMessageQueue, [
+      {
+        id: "AwsSolutions-SQS3",
+        reason:
+          "This queue is itself a dead-letter queue of messages rejected by SnsHandler",
+      },
+    ]);
+
     // Create a Lambda function that will be triggered by SNS
     const snsHandler = new NodejsFunction(this, "SnsHandler", {
       runtime: lambda.Runtime.NODEJS_22_X,
       handler: "handler",
       entry: path.join(__dirname, "../lambdas/sns-handler/index.ts"),
-      timeout: Duration.seconds(30),
+      // Paginates through the commits, reviews, files and timeline of a pull request
+      timeout: Duration.seconds(60),
       memorySize: 128,
       description: "Processes messages from GitHub activity SNS topic",
       environment: {
         TIMESTREAM_DATABASE_NAME: timestreamDatabaseName,
         TIMESTREAM_TABLE_NAME: githubAPIResultTimestreamTableName,
+        GITHUB_TOKEN_PARAMETER_NAME: githubTokentParam.parameterName,
+        DEFERRED_QUEUE_URL: githubApiDeferredQueue.queueUrl,
+        INVALID_MESSAGE_QUEUE_URL: invalidActivityMessageQueue.queueUrl,
+        DEAD_LETTER_QUEUE_URL: githubApiDeferredDeadLetterQueue.queueUrl,
       },
       bundling: {
         minify: true,
@@ -180,6 +515,7 @@ export class GitHubActivityMetricsStack extends Stack {
         externalModules: ["aws-sdk"],
         // Bundle only the required AWS SDK v3 modules
         nodeModules: [
+          "@aws-sdk/client-sqs",
           "@aws-sdk/client-ssm",
           "@aws-sdk/client-timestream-write",
           "@octokit/rest",
@@ -190,22 +526,207 @@ export class GitHubActivityMetricsStack extends Stack {
     // Grant SSM parameter read permission to the Lambda function
     githubTokentParam.grantRead(snsHandler);
 
+    // Authenticate as the GitHub App when it is configured
+    if (props.githubApp) {
+      const githubAppPrivateKeyParam =
+        ssm.StringParameter.fromSecureStringParameterAttributes(
+          this,
+          "GitHubAppPrivateKey",
+          {
+            parameterName:
+              props.githubApp.privateKeyParameterName ??
+              "/github/metrics/github-app-private-key",
+          },
+        );
+      snsHandler.addEnvironment("GITHUB_APP_ID", props.githubApp.appId);
+      snsHandler.addEnvironment(
+        "GITHUB_APP_PRIVATE_KEY_PARAMETER_NAME",
+        githubAppPrivateKeyParam.parameterName,
+      );
+      githubAppPrivateKeyParam.grantRead(snsHandler);
+    }
+
     // Grant Timestream write permissions to the SNS handler Lambda function
     this.addTimestreamWritePermissionsToLambda(
       snsHandler,
       timestreamDatabaseName,
       githubAPIResultTimestreamTableName,
     );
+    storage.timestreamRejectedRecordsBucket.grantPut(
+      snsHandler,
+      `${githubAPIResultTimestreamTableName}/*`,
+    );
 
     // Subscribe the Lambda function to the SNS topic
     githubActivityTopic.addSubscription(
-      new snsSubs.LambdaSubscription(snsHandler),
+      new snsSubs.LambdaSubscription(snsHandler, {
+        filterPolicy: {
+          eventType: sns.SubscriptionFilter.stringFilter({
+            allowlist: ["pull_request", "workflow_run"],
+          }),
+        },
+      }),
+    );
+    invalidActivityMessageQueue.grantSendMessages(snsHandler);
+
+    new CfnOutput(this, "InvalidActivityMessageQueueArn", {
+      value: invalidActivityMessageQueue.queueArn,
+      description:
+        "SQS queue of GitHub activity messages rejected because they do not match the message schema",
+    });
+
+    new CfnOutput(this, "GitHubApiDeferredDeadLetterQueueArn", {
+      value: githubApiDeferredDeadLetterQueue.queueArn,
+      description:
+        "SQS dead-letter queue of GitHub API enrichment messages that failed processing",
+    });
+
+    new CfnOutput(this, "GitHubApiDeferredQueueArn", {
+      value: githubApiDeferredQueue.queueArn,
+      description:
+        "SQS queue of GitHub API enrichment messages, to redrive failed messages to",
+    });
+
+    // Process messages deferred while the GitHub API rate limit budget was low
+    githubApiDeferredQueue.grantSendMessages(snsHandler);
+    githubApiDeferredDeadLetterQueue.grantSendMessages(snsHandler);
+    snsHandler.addEventSource(
+      new lambdaEventSources.SqsEventSource(githubApiDeferredQueue, {
+        batchSize: 10,
+        reportBatchItemFailures: true,
+      }),
+    );
+
+    // Lambda function - Rolls up DORA metrics from the webhook events
+    const doraRollup = new NodejsFunction(this, "DoraRollup", {
+      runtime: lambda.Runtime.NODEJS_22_X,
+      handler: "handler",
+      entry: path.join(__dirname, "../lambdas/dora-rollup/index.ts"),
+      environment: {
+        TIMESTREAM_DATABASE_NAME: timestreamDatabaseName,
+        TIMESTREAM_TABLE_NAME: githubWebHookTimestreamTableName,
+        DORA_METRICS_TABLE_NAME: doraMetricsTimestreamTableName,
+        DORA_CONFIG: JSON.stringify(props.doraMetrics ?? {}),
+      },
+      timeout: Duration.minutes(5),
+      memorySize: 256,
+      description: "Rolls up daily and weekly DORA metrics",
+      bundling: {
+        minify: true,
+        sourceMap: true,
+        externalModules: ["aws-sdk"],
+        // Bundle only the required AWS SDK v3 modules
+        nodeModules: [
+          "@aws-sdk/client-timestream-query",
+          "@aws-sdk/client-timestream-write",
+        ],
+      },
+    });
+
+    doraRollup.addToRolePolicy(
+      new iam.PolicyStatement({
+        actions: ["timestream:Select"],
+        resources: [
+          `arn:aws:timestream:${this.region}:${this.account}:database/${timestreamDatabaseName}/table/${githubWebHookTimestreamTableName}`,
+        ],
+      }),
+    );
+    this.addTimestreamWritePermissionsToLambda(
+      doraRollup,
+      timestreamDatabaseName,
+      doraMetricsTimestreamTableName,
+    );
+    storage.timestreamRejectedRecordsBucket.grantPut(
+      doraRollup,
+      `${doraMetricsTimestreamTableName}/*`,
     );
 
+    // Roll up the previous day every day at 01:00 UTC, leaving time for late deliveries
+    new events.Rule(this, "DoraRollupSchedule", {
+      schedule: events.Schedule.cron({ minute: "0", hour: "1" }),
+      targets: [new eventsTargets.LambdaFunction(doraRollup)],
+    });
+
+    // Pseudonymize identities written by the Lambda functions
+    if (props.pseudonymization) {
+      this.setupPseudonymization([
+        webhookWorker,
+        snsHandler,
+        customDataApiHandler,
+      ]);
+    }
+
     // Configure CDK Nag suppressions
     this.setupNagSuppressions();
   }
 
+  /**
+   * Enable pseudonymization of identities in the Lambda functions writing to Timestream
+   * @param lambdaFunctions Lambda functions that pseudonymize identities
+   */
+  private setupPseudonymization(lambdaFunctions: NodejsFunction[]) {
+    const pseudonymizationKeyParam =
+      ssm.StringParameter.fromSecureStringParameterAttributes(
+        this,
+        "PseudonymizationKey",
+        {
+          parameterName: "/github/metrics/pseudonymization-key",
+        },
+      );
+
+    // DynamoDB table mapping tokens back to logins and user IDs.
+    // Only principals granted the reverse-lookup policy can read it.
+    const pseudonymTable = new dynamodb.Table(this, "PseudonymTable", {
+      partitionKey: { name: "token", type: dynamodb.AttributeType.STRING },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.AWS_MANAGED,
+      pointInTimeRecoverySpecification: {
+        pointInTimeRecoveryEnabled: true,
+      },
+      removalPolicy: RemovalPolicy.RETAIN,
+    });
+
+    for (const lambdaFunction of lambdaFunctions) {
+      lambdaFunction.addEnvironment(
+        "PSEUDONYMIZATION_KEY_PARAMETER_NAME",
+        pseudonymizationKeyParam.parameterName,
+      );
+      lambdaFunction.addEnvironment(
+        "PSEUDONYM_TABLE_NAME",
+        pseudonymTable.tableName,
+      );
+      pseudonymizationKeyParam.grantRead(lambdaFunction);
+      pseudonymTable.grant(lambdaFunction, "dynamodb:BatchWriteItem");
+    }
+
+    // Managed policy to attach to the administrators allowed to look up the original identities
+    const reverseLookupPolicy = new iam.ManagedPolicy(
+      this,
+      "PseudonymReverseLookupPolicy",
+      {
+        description:
+          "Allows looking up the GitHub logins and user IDs behind pseudonymized tokens",
+        statements: [
+          new iam.PolicyStatement({
+            actions: ["dynamodb:GetItem"],
+            resources: [pseudonymTable.tableArn],
+          }),
+        ],
+      },
+    );
+
+    new CfnOutput(this, "PseudonymTableName", {
+      value: pseudonymTable.tableName,
+      description: "DynamoDB table mapping pseudonymized tokens to identities",
+    });
+
+    new CfnOutput(this, "PseudonymReverseLookupPolicyArn", {
+      value: reverseLookupPolicy.managedPolicyArn,
+      description:
+        "Managed policy to attach to administrators allowed to look up identities",
+    });
+  }
+
   /**
    * Add Timestream write permissions to the Lambda function
    * @param lambdaFunction the Lambda function to which permissions will be added
@@ -0,0 +1,80 @@
+import {
+  ACTIVITY_MESSAGE_VERSION,
+  InvalidActivityMessageError,
+  parseActivityMessage,
+  toMessageAttributes,
+} from "../src/lambdas/common/activity-message";
+
+const pullRequestMessage = {
+  version: ACTIVITY_MESSAGE_VERSION,
+  deliveryId: "72d3162e-cc78-11e3-81ab-4c9367dc0958",
+  eventType: "pull_request",
+  action: "opened",
+  number: 42,
+  organization: "octo-org",
+  repository: "octo-repo",
+};
+
+describe("parseActivityMessage", () => {
+  test("parses messages of supported event types", () => {
+    expect(parseActivityMessage(JSON.stringify(pullRequestMessage))).toEqual(
+      pullRequestMessage,
+    );
+    const workflowRunMessage = {
+      ...pullRequestMessage,
+      eventType: "workflow_run",
+      action: "completed",
+      runId: 30433642,
+      runAttempt: 1,
+    };
+    expect(parseActivityMessage(JSON.stringify(workflowRunMessage))).toEqual(
+      workflowRunMessage,
+    );
+  });
+
+  test.each([
+    ["not JSON", "{", "Message is not valid JSON"],
+    [
+      "an unversioned message",
+      JSON.stringify({ ...pullRequestMessage, version: undefined }),
+      "Unsupported message version: undefined",
+    ],
+    [
+      "an unsupported event type",
+      JSON.stringify({ ...pullRequestMessage, eventType: "push" }),
+      "Unsupported event type: push",
+    ],
+    [
+      "a missing field",
+      JSON.stringify({ ...pullRequestMessage, number: "42" }),
+      "number must be a positive integer",
+    ],
+  ])("rejects %s", (_, body, reason) => {
+    expect(() => parseActivityMessage(body)).toThrow(
+      new InvalidActivityMessageError(reason),
+    );
+  });
+});
+
+describe("toMessageAttributes", () => {
+  test("exposes fields subscribers can filter on", () => {
+    const attributes = toMessageAttributes(
+      parseActivityMessage(JSON.stringify(pullRequestMessage)),
+    );
+    expect(attributes.eventType).toEqual({
+      DataType: "String",
+      StringValue: "pull_request",
+    });
+    expect(attributes.version).toEqual({
+      DataType: "Number",
+      StringValue: "1",
+    });
+    expect(Object.keys(attributes)).toEqual([
+      "version",
+      "eventType",
+      "action",
+      "organization",
+      "repository",
+    ]);
+  });
+});
@@ -0,0 +1,30 @@
+import { classifyActor } from "../src/lambdas/webhook-worker/actor-kind";
+
+describe("classifyActor", () => {
+  beforeAll(() => {
+    process.env.KNOWN_SERVICE_ACCOUNTS = "octo-deployer, Release-Bot";
+  });
+
+  test("classifies GitHub App bot accounts as bots", () => {
+    expect(classifyActor({ login: "dependabot[bot]", type: "Bot" })).toBe(
+      "bot",
+    );
+    expect(classifyActor({ login: "renovate[bot]" })).toBe("bot");
+  });
+
+  test("classifies known service accounts as bots", () => {
+    expect(classifyActor({ login: "release-bot", type: "User" })).toBe("bot");
+  });
+
+  test("classifies users acting through a GitHub App as apps", () => {
+    expect(classifyActor({ login: "octocat", type: "User" }, true)).toBe("app");
+    expect(classifyActor({ login: "octocat", type: "User" })).toBe("human");
+  });
+
+  test("classifies missing and other accounts as unknown", () => {
+    expect(classifyActor(undefined)).toBe("unknown");
+    expect(classifyActor({ login: "octo-org", type: "Organization" })).toBe(
+      "unknown",
+    );
+  });
+});
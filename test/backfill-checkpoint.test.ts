@@ -0,0 +1,222 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  backfillListing,
+  loadCheckpoint,
+  ResourceCheckpoint,
+} from "../src/scripts/backfill-checkpoint";
+
+const since = new Date("2025-01-01T00:00:00Z");
+
+describe("loadCheckpoint", () => {
+  let directory: string;
+  let path: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), "backfill-checkpoint-"));
+    path = join(directory, ".backfill-checkpoint.json");
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test("saves the progress of a real run", () => {
+    const { checkpoint, save } = loadCheckpoint(path, {
+      since,
+      dryRun: false,
+    });
+    checkpoint.repositories["octo-org/repo"] = {
+      issues: { cursor: "2025-02-01T00:00:00Z", done: true },
+    };
+    save();
+
+    expect(JSON.parse(readFileSync(path, "utf8"))).toEqual({
+      since: "2025-01-01T00:00:00.000Z",
+      repositories: {
+        "octo-org/repo": {
+          issues: { cursor: "2025-02-01T00:00:00Z", done: true },
+        },
+      },
+    });
+  });
+
+  test("resumes from the saved progress", () => {
+    const saved = {
+      since: "2025-01-01T00:00:00.000Z",
+      repositories: {
+        "octo-org/repo": {
+          issues: { cursor: "2025-02-01T00:00:00Z", done: false },
+        },
+      },
+    };
+    writeFileSync(path, JSON.stringify(saved));
+
+    expect(loadCheckpoint(path, { since, dryRun: false }).checkpoint).toEqual(
+      saved,
+    );
+  });
+
+  test("rejects progress saved for another period", () => {
+    writeFileSync(
+      path,
+      JSON.stringify({ since: "2024-01-01T00:00:00.000Z", repositories: {} }),
+    );
+
+    expect(() => loadCheckpoint(path, { since, dryRun: false })).toThrow(
+      "was saved for --since 2024-01-01T00:00:00.000Z",
+    );
+  });
+
+  test("leaves the checkpoint file unchanged on a dry run", () => {
+    const saved = JSON.stringify({
+      since: "2025-01-01T00:00:00.000Z",
+      repositories: { "octo-org/repo": { issues: { done: false } } },
+    });
+    writeFileSync(path, saved);
+
+    const { checkpoint, save } = loadCheckpoint(path, { since, dryRun: true });
+    checkpoint.repositories["octo-org/repo"].issues = { done: true };
+    checkpoint.repositories["octo-org/other"] = {
+      workflow_run: { done: true },
+    };
+    save();
+
+    expect(readFileSync(path, "utf8")).toBe(saved);
+  });
+
+  test("does not create a checkpoint file on a dry run", () => {
+    const { checkpoint, save } = loadCheckpoint(path, { since, dryRun: true });
+    checkpoint.repositories["octo-org/repo"] = { issues: { done: true } };
+    save();
+
+    expect(existsSync(path)).toBe(false);
+  });
+});
+
+describe("backfillListing", () => {
+  interface Item {
+    id: number;
+    at: string;
+  }
+
+  const item = (id: number, day: number): Item => ({
+    id,
+    at: `2025-01-${String(day).padStart(2, "0")}T00:00:00Z`,
+  });
+
+  /**
+   * Run the backfill of a listing
+   * @param checkpoint Progress of the resource
+   * @param listing Fetches pages and tells whether they start at the cursor
+   * @returns Processed item IDs, and the requested cursors and pages
+   */
+  async function run(
+    checkpoint: ResourceCheckpoint,
+    listing: {
+      fetchPage: (cursor: string | undefined, page: number) => Item[];
+      startsAtCursor: boolean;
+      pageSize: number;
+    },
+  ) {
+    const processed: number[] = [];
+    const requests: [string | undefined, number][] = [];
+    const saved: ResourceCheckpoint[] = [];
+    await backfillListing(
+      checkpoint,
+      () => saved.push({ ...checkpoint }),
+      {
+        fetchPage: async (cursor, page) => {
+          requests.push([cursor, page]);
+          return listing.fetchPage(cursor, page);
+        },
+        startsAtCursor: listing.startsAtCursor,
+        timestampOf: (listed) => listed.at,
+        isLastPage: (items) => items.length < listing.pageSize,
+      },
+      async (items) => {
+        processed.push(...items.map((listed) => listed.id));
+      },
+    );
+    return { processed, requests, saved };
+  }
+
+  test("reads listings starting at the cursor from their first page as the cursor moves", async () => {
+    // Ascending listing with a `since` filter, two items per page
+    const items = [item(1, 1), item(2, 2), item(3, 3), item(4, 4)];
+    const { processed, requests, saved } = await run(
+      { done: false },
+      {
+        fetchPage: (cursor, page) =>
+          items
+            .filter((listed) => !cursor || listed.at >= cursor)
+            .slice((page - 1) * 2, page * 2),
+        startsAtCursor: true,
+        pageSize: 2,
+      },
+    );
+
+    expect(requests).toEqual([
+      [undefined, 1],
+      ["2025-01-02T00:00:00Z", 1],
+      ["2025-01-03T00:00:00Z", 1],
+      ["2025-01-04T00:00:00Z", 1],
+    ]);
+    // Items at the cursor are processed again
+    expect(processed).toEqual([1, 2, 2, 3, 3, 4, 4]);
+    expect(saved[saved.length - 1]).toEqual({
+      cursor: "2025-01-04T00:00:00Z",
+      done: true,
+    });
+  });
+
+  test("moves to the next page when a full page shares the cursor", async () => {
+    const items = [item(1, 1), item(2, 1), item(3, 1), item(4, 2)];
+    const { processed, requests } = await run(
+      { cursor: "2025-01-01T00:00:00Z", done: false },
+      {
+        fetchPage: (cursor, page) =>
+          items
+            .filter((listed) => !cursor || listed.at >= cursor)
+            .slice((page - 1) * 2, page * 2),
+        startsAtCursor: true,
+        pageSize: 2,
+      },
+    );
+
+    expect(requests).toEqual([
+      ["2025-01-01T00:00:00Z", 1],
+      ["2025-01-01T00:00:00Z", 2],
+      ["2025-01-02T00:00:00Z", 1],
+    ]);
+    expect(processed).toEqual([1, 2, 3, 4, 4]);
+  });
+
+  test("skips items newer than the cursor in other listings", async () => {
+    // Descending listing without a filter, resumed after the items of January 4th and 3rd
+    const items = [item(5, 5), item(4, 4), item(3, 3), item(2, 2), item(1, 1)];
+    const { processed, requests, saved } = await run(
+      { cursor: "2025-01-03T00:00:00Z", done: false },
+      {
+        fetchPage: (_cursor, page) => items.slice((page - 1) * 2, page * 2),
+        startsAtCursor: false,
+        pageSize: 2,
+      },
+    );
+
+    expect(requests.map(([, page]) => page)).toEqual([1, 2, 3]);
+    expect(processed).toEqual([3, 2, 1]);
+    // The cursor does not move back while skipping
+    expect(saved[0].cursor).toBe("2025-01-03T00:00:00Z");
+  });
+
+  test("does nothing for a completed resource", async () => {
+    const { requests } = await run(
+      { cursor: "2025-01-03T00:00:00Z", done: true },
+      { fetchPage: () => [], startsAtCursor: true, pageSize: 2 },
+    );
+
+    expect(requests).toEqual([]);
+  });
+});
@@ -0,0 +1,107 @@
+import { resolveDoraMetricsConfig } from "../src/lambdas/common/dora-config";
+import { rollupDoraMetrics } from "../src/lambdas/dora-rollup/rollup";
+
+const HOUR = 60 * 60 * 1000;
+const shaA = "a".repeat(40);
+const shaB = "b".repeat(40);
+
+describe("rollupDoraMetrics", () => {
+  const rows = {
+    deployments: [
+      {
+        repository: "octo-org/api",
+        environment: "production",
+        sha: shaA,
+        state: "success",
+        statusAt: 10 * HOUR,
+      },
+      {
+        repository: "octo-org/api",
+        environment: "Production",
+        sha: shaB,
+        state: "failure",
+        statusAt: 12 * HOUR,
+      },
+      {
+        repository: "octo-org/api",
+        environment: "staging",
+        sha: shaB,
+        state: "success",
+        statusAt: 11 * HOUR,
+      },
+      {
+        repository: "octo-org/web",
+        environment: "production",
+        sha: shaA,
+        state: "success",
+        statusAt: 20 * HOUR,
+      },
+    ],
+    commits: [
+      { repository: "octo-org/api", sha: shaA, committedAt: 8 * HOUR },
+      { repository: "octo-org/api", sha: shaA, committedAt: 6 * HOUR },
+      // Not deployed to production
+      { repository: "octo-org/api", sha: shaB, committedAt: 9 * HOUR },
+    ],
+    closedIssues: [
+      {
+        repository: "octo-org/api",
+        labels: ["bug", "Incident"],
+        createdAt: 12 * HOUR,
+        closedAt: 15 * HOUR,
+      },
+      {
+        repository: "octo-org/api",
+        labels: ["bug"],
+        createdAt: 0,
+        closedAt: 20 * HOUR,
+      },
+    ],
+  };
+
+  test("rolls up metrics per repository", () => {
+    const rollups = rollupDoraMetrics(rows, resolveDoraMetricsConfig(), 1);
+    expect(rollups).toEqual([
+      {
+        scope: "repository",
+        name: "octo-org/api",
+        deployments: 1,
+        deploymentFrequency: 1,
+        leadTimeSeconds: 3 * 60 * 60,
+        failedDeployments: 1,
+        changeFailureRate: 0.5,
+        incidents: 1,
+        timeToRestoreSeconds: 3 * 60 * 60,
+      },
+      {
+        scope: "repository",
+        name: "octo-org/web",
+        deployments: 1,
+        deploymentFrequency: 1,
+        leadTimeSeconds: undefined,
+        failedDeployments: 0,
+        changeFailureRate: 0,
+        incidents: 0,
+        timeToRestoreSeconds: undefined,
+      },
+    ]);
+  });
+
+  test("rolls up metrics per team with configured definitions", () => {
+    const config = resolveDoraMetricsConfig({
+      productionEnvironments: ["prod*", "staging"],
+      teams: { platform: ["octo-org/*"], mobile: ["octo-org/ios"] },
+    });
+    const team = rollupDoraMetrics(rows, config, 7).find(
+      (rollup) => rollup.scope === "team",
+    );
+    expect(team).toMatchObject({
+      name: "platform",
+      deployments: 3,
+      deploymentFrequency: 3 / 7,
+      failedDeployments: 1,
+      changeFailureRate: 0.25,
+      incidents: 1,
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { createVerify, generateKeyPairSync } from "crypto";
+import { SSMClient } from "@aws-sdk/client-ssm";
+import { Octokit } from "@octokit/rest";
+import {
+  createAppJwt,
+  getGitHubToken,
+} from "../src/lambdas/common/github-auth";
+
+// Jest cannot load the ES module
+jest.mock("@octokit/rest", () => ({ Octokit: jest.fn() }));
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("createAppJwt", () => {
+  test("signs a JWT issued by the GitHub App", () => {
+    const { privateKey, publicKey } = generateKeyPairSync("rsa", {
+      modulusLength: 2048,
+      privateKeyEncoding: { type: "pkcs8", format: "pem" },
+      publicKeyEncoding: { type: "spki", format: "pem" },
+    });
+
+    const [header, payload, signature] = createAppJwt(
+      "12345",
+      privateKey,
+    ).split(".");
+
+    expect(JSON.parse(Buffer.from(header, "base64url").toString())).toEqual({
+      alg: "RS256",
+      typ: "JWT",
+    });
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    expect(claims.iss).toBe("12345");
+    expect(claims.exp - claims.iat).toBeLessThanOrEqual(10 * 60);
+    expect(
+      createVerify("RSA-SHA256")
+        .update(`${header}.${payload}`)
+        .verify(publicKey, Buffer.from(signature, "base64url")),
+    ).toBe(true);
+  });
+});
+
+describe("getGitHubToken", () => {
+  const { privateKey } = generateKeyPairSync("rsa", {
+    modulusLength: 2048,
+    privateKeyEncoding: { type: "pkcs8", format: "pem" },
+    publicKeyEncoding: { type: "spki", format: "pem" },
+  });
+  const notFound = Object.assign(new Error("Not Found"), { status: 404 });
+
+  let apps: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    process.env.GITHUB_APP_ID = "12345";
+    process.env.GITHUB_APP_PRIVATE_KEY_PARAMETER_NAME =
+      "/github/metrics/github-app-private-key";
+    process.env.GITHUB_TOKEN_PARAMETER_NAME = "/github/metrics/github-token";
+    (jest.spyOn(SSMClient.prototype, "send") as jest.SpyInstance)
+      .mockImplementation(async (command: any) => ({
+        Parameter: {
+          Value:
+            command.input.Name === "/github/metrics/github-token"
+              ? "personal-access-token"
+              : privateKey,
+        },
+      }));
+    apps = {
+      getOrgInstallation: jest.fn(),
+      getRepoInstallation: jest.fn(),
+      createInstallationAccessToken: jest.fn(
+        async ({ installation_id }: { installation_id: number }) => ({
+          data: {
+            token: `installation-token-${installation_id}`,
+            expires_at: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+          },
+        }),
+      ),
+    };
+    (Octokit as unknown as jest.Mock).mockImplementation(() => ({ apps }));
+  });
+
+  afterEach(() => {
+    delete process.env.GITHUB_APP_ID;
+    delete process.env.GITHUB_APP_PRIVATE_KEY_PARAMETER_NAME;
+    delete process.env.GITHUB_TOKEN_PARAMETER_NAME;
+  });
+
+  // Installation IDs and tokens are cached by the module, so each test uses its own owner and installation
+
+  test("mints a token for the installation on the organization", async () => {
+    apps.getOrgInstallation.mockResolvedValue({ data: { id: 1 } });
+
+    await expect(getGitHubToken("octo-org", "repo")).resolves.toBe(
+      "installation-token-1",
+    );
+    await expect(getGitHubToken("Octo-Org", "other")).resolves.toBe(
+      "installation-token-1",
+    );
+
+    expect(apps.getOrgInstallation).toHaveBeenCalledTimes(1);
+    expect(apps.getOrgInstallation).toHaveBeenCalledWith({ org: "octo-org" });
+    expect(apps.getRepoInstallation).not.toHaveBeenCalled();
+    expect(apps.createInstallationAccessToken).toHaveBeenCalledTimes(1);
+  });
+
+  test("falls back to the installation on the repository of a user", async () => {
+    apps.getOrgInstallation.mockRejectedValue(notFound);
+    apps.getRepoInstallation.mockResolvedValue({ data: { id: 2 } });
+
+    await expect(getGitHubToken("octocat", "hello-world")).resolves.toBe(
+      "installation-token-2",
+    );
+    await expect(getGitHubToken("octocat", "hello-world")).resolves.toBe(
+      "installation-token-2",
+    );
+
+    expect(apps.getRepoInstallation).toHaveBeenCalledTimes(1);
+    expect(apps.getRepoInstallation).toHaveBeenCalledWith({
+      owner: "octocat",
+      repo: "hello-world",
+    });
+  });
+
+  test("uses the personal access token when the GitHub App is not installed", async () => {
+    apps.getOrgInstallation.mockRejectedValue(notFound);
+    apps.getRepoInstallation.mockRejectedValue(notFound);
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+
+    await expect(getGitHubToken("hubot", "repo")).resolves.toBe(
+      "personal-access-token",
+    );
+
+    expect(apps.createInstallationAccessToken).not.toHaveBeenCalled();
+  });
+
+  test("fails without a personal access token when the GitHub App is not installed", async () => {
+    delete process.env.GITHUB_TOKEN_PARAMETER_NAME;
+    apps.getOrgInstallation.mockRejectedValue(notFound);
+    apps.getRepoInstallation.mockRejectedValue(notFound);
+
+    await expect(getGitHubToken("monalisa", "repo")).rejects.toThrow(
+      "GitHub App 12345 is not installed on monalisa/repo",
+    );
+  });
+
+  test("does not fall back on other errors of the lookup", async () => {
+    apps.getOrgInstallation.mockRejectedValue(
+      Object.assign(new Error("Unauthorized"), { status: 401 }),
+    );
+
+    await expect(getGitHubToken("mona-org", "repo")).rejects.toThrow(
+      "Unauthorized",
+    );
+    expect(apps.getRepoInstallation).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,97 @@
+import { PublishCommand, SNSClient } from "@aws-sdk/client-sns";
+import {
+  GetParameterCommand,
+  ParameterNotFound,
+  PutParameterCommand,
+  SSMClient,
+} from "@aws-sdk/client-ssm";
+import { handler } from "../src/lambdas/github-meta-sync";
+
+const mockGetMeta = jest.fn();
+
+jest.mock("@octokit/rest", () => ({
+  Octokit: jest.fn(() => ({ meta: { get: mockGetMeta } })),
+}));
+
+const parameterName = "/github/metrics/hook-ip-ranges";
+
+/**
+ * Replace SSM Parameter Store with an in-memory parameter
+ * @param value Stored value, or undefined if the parameter does not exist
+ * @returns Values written to the parameter
+ */
+function mockParameter(value: string | undefined) {
+  const writes: string[] = [];
+  jest
+    .spyOn(SSMClient.prototype, "send")
+    .mockImplementation(async (command: any) => {
+      expect(command.input.Name).toBe(parameterName);
+      if (command instanceof GetParameterCommand) {
+        if (value === undefined) {
+          throw new ParameterNotFound({ message: "", $metadata: {} });
+        }
+        return { Parameter: { Value: value } };
+      }
+      if (command instanceof PutParameterCommand) {
+        writes.push(command.input.Value!);
+        return {};
+      }
+      throw new Error(`Unexpected command ${command.constructor.name}`);
+    });
+  return writes;
+}
+
+beforeEach(() => {
+  process.env.HOOK_IP_RANGES_PARAMETER_NAME = parameterName;
+  process.env.ALERT_TOPIC_ARN = "arn:aws:sns:us-east-1:123456789012:alert";
+  mockGetMeta.mockResolvedValue({
+    data: { hooks: ["192.30.252.0/22", "140.82.112.0/20"] },
+  });
+  jest.spyOn(SNSClient.prototype, "send").mockResolvedValue({} as never);
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("github meta sync", () => {
+  test("creates the parameter on the first run without an alert", async () => {
+    const writes = mockParameter(undefined);
+
+    expect(await handler()).toEqual({ changed: true });
+    expect(writes).toEqual(["140.82.112.0/20,192.30.252.0/22"]);
+    expect(SNSClient.prototype.send).not.toHaveBeenCalled();
+  });
+
+  test("leaves unchanged ranges as they are", async () => {
+    const writes = mockParameter("192.30.252.0/22, 140.82.112.0/20");
+
+    expect(await handler()).toEqual({ changed: false });
+    expect(writes).toEqual([]);
+    expect(SNSClient.prototype.send).not.toHaveBeenCalled();
+  });
+
+  test("stores changed ranges and publishes an alert", async () => {
+    const writes = mockParameter("192.30.252.0/22");
+
+    expect(await handler()).toEqual({ changed: true });
+    expect(writes).toEqual(["140.82.112.0/20,192.30.252.0/22"]);
+    const [command] = jest.mocked(SNSClient.prototype.send).mock.calls[0];
+    expect(command).toBeInstanceOf(PublishCommand);
+    expect(JSON.parse((command as PublishCommand).input.Message!)).toEqual({
+      parameterName,
+      previous: ["192.30.252.0/22"],
+      current: ["140.82.112.0/20", "192.30.252.0/22"],
+    });
+  });
+
+  test("fails without overwriting the parameter when /meta has no hooks ranges", async () => {
+    const writes = mockParameter("192.30.252.0/22");
+    mockGetMeta.mockResolvedValue({ data: { hooks: [] } });
+
+    await expect(handler()).rejects.toThrow("no hooks ranges");
+    expect(writes).toEqual([]);
+  });
+});
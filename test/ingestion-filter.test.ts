@@ -0,0 +1,63 @@
+import { evaluateIngestionFilter } from "../src/lambdas/common/ingestion-filter";
+
+const payload = {
+  action: "opened",
+  repository: { full_name: "octo-org/hello-world" },
+  sender: { login: "dependabot[bot]", type: "Bot" },
+};
+
+describe("evaluateIngestionFilter", () => {
+  test("ingests every delivery without rules", () => {
+    expect(
+      evaluateIngestionFilter({}, "pull_request", payload),
+    ).toBeUndefined();
+  });
+
+  test("filters denied event types", () => {
+    const filter = { eventTypes: { deny: ["star", "watch"] } };
+    expect(evaluateIngestionFilter(filter, "watch", payload)).toBe(
+      "eventTypes",
+    );
+    expect(evaluateIngestionFilter(filter, "push", payload)).toBeUndefined();
+  });
+
+  test("matches repositories and actions with glob patterns", () => {
+    const filter = {
+      repositories: { allow: ["Octo-Org/*"], deny: ["*/sandbox-*"] },
+      actions: { deny: ["*.labeled"] },
+    };
+    expect(evaluateIngestionFilter(filter, "issues", payload)).toBeUndefined();
+    expect(
+      evaluateIngestionFilter(filter, "issues", {
+        ...payload,
+        repository: { full_name: "octo-org/sandbox-1" },
+      }),
+    ).toBe("repositories");
+    expect(
+      evaluateIngestionFilter(filter, "issues", {
+        ...payload,
+        repository: { full_name: "other/hello-world" },
+      }),
+    ).toBe("repositories");
+    expect(
+      evaluateIngestionFilter(filter, "issues", {
+        ...payload,
+        action: "labeled",
+      }),
+    ).toBe("actions");
+  });
+
+  test("does not filter deliveries without the attribute", () => {
+    const filter = { repositories: { allow: ["octo-org/*"] } };
+    expect(
+      evaluateIngestionFilter(filter, "organization", { action: "renamed" }),
+    ).toBeUndefined();
+  });
+
+  test("filters sender types", () => {
+    const filter = { senderTypes: { deny: ["bot"] } };
+    expect(evaluateIngestionFilter(filter, "pull_request", payload)).toBe(
+      "senderTypes",
+    );
+  });
+});
@@ -0,0 +1,77 @@
+import { GetParameterCommand, SSMClient } from "@aws-sdk/client-ssm";
+import { DEFAULT_HOOK_IP_RANGES } from "../src/lambdas/common/github-ip-ranges";
+import { getAllowedIpRanges } from "../src/lambdas/webhook-handler/ip-allowlist";
+
+const parameterName = "/github/metrics/hook-ip-ranges";
+
+let now = Date.parse("2025-05-01T00:00:00Z");
+
+function mockParameterValue(value: string | Error) {
+  return jest
+    .spyOn(SSMClient.prototype, "send")
+    .mockImplementation(async (command: any) => {
+      expect(command).toBeInstanceOf(GetParameterCommand);
+      expect(command.input.Name).toBe(parameterName);
+      if (value instanceof Error) {
+        throw value;
+      }
+      return { Parameter: { Value: value } };
+    });
+}
+
+beforeEach(() => {
+  // Expire the ranges cached by the previous test
+  now += 60 * 60 * 1000;
+  jest.useFakeTimers({ now });
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe("getAllowedIpRanges", () => {
+  test("reads the ranges from the parameter", async () => {
+    mockParameterValue("192.30.252.0/22, 2606:50c0::/32");
+
+    expect(await getAllowedIpRanges(parameterName)).toEqual([
+      "192.30.252.0/22",
+      "2606:50c0::/32",
+    ]);
+  });
+
+  test("reloads the ranges after the cache expires", async () => {
+    const send = mockParameterValue("192.30.252.0/22");
+    await getAllowedIpRanges(parameterName);
+
+    jest.advanceTimersByTime(60 * 1000);
+    send.mockResolvedValue({ Parameter: { Value: "140.82.112.0/20" } } as never);
+    expect(await getAllowedIpRanges(parameterName)).toEqual([
+      "192.30.252.0/22",
+    ]);
+
+    jest.advanceTimersByTime(5 * 60 * 1000);
+    expect(await getAllowedIpRanges(parameterName)).toEqual([
+      "140.82.112.0/20",
+    ]);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  test("falls back to the built-in ranges when the parameter is empty", async () => {
+    mockParameterValue("");
+
+    expect(await getAllowedIpRanges(parameterName)).toEqual(
+      DEFAULT_HOOK_IP_RANGES,
+    );
+  });
+
+  test("falls back to the built-in ranges when the parameter cannot be read", async () => {
+    mockParameterValue(new Error("AccessDeniedException"));
+
+    expect(await getAllowedIpRanges(parameterName)).toEqual(
+      DEFAULT_HOOK_IP_RANGES,
+    );
+  });
+});
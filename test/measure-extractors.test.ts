@@ -0,0 +1,388 @@
+import { getMeasures } from "../src/lambdas/webhook-worker/measures";
+
+const user = { id: 1, login: "octocat" };
+
+const pullRequest = {
+  author_association: "MEMBER",
+  base: { label: "org:main", ref: "main", sha: "abc", user },
+  created_at: "2025-05-04T10:41:38Z",
+  updated_at: "2025-05-04T11:41:38Z",
+  draft: false,
+  id: 100,
+  locked: false,
+  number: 7,
+  state: "open",
+  assignee: null,
+  assignees: [],
+  labels: [],
+  merged_at: null,
+  closed_at: null,
+  user,
+  commits: 2,
+  review_comments: 1,
+  merged: false,
+};
+
+const issue = {
+  assignee: null,
+  assignees: [],
+  labels: [],
+  author_association: "MEMBER",
+  closed_at: null,
+  comments: 1,
+  created_at: "2025-05-04T10:41:38Z",
+  id: 200,
+  locked: false,
+  number: 8,
+  state: "open",
+  updated_at: "2025-05-04T10:41:38Z",
+  user,
+};
+
+function comment(id: number, createdAt: string, overrides: object = {}) {
+  return {
+    id,
+    body: "LGTM!",
+    author_association: "MEMBER",
+    created_at: createdAt,
+    updated_at: createdAt,
+    user,
+    ...overrides,
+  };
+}
+
+/**
+ * Extract the measure of a delivery, with its values keyed by column name
+ */
+function extract(eventType: string, payload: any) {
+  const [measure]: any[] = getMeasures(eventType, payload)!;
+  return {
+    measureName: measure.measureName as string,
+    values: Object.fromEntries(
+      measure.measureValues.map((value: any) => [value.Name, value.Value]),
+    ) as Record<string, string>,
+  };
+}
+
+describe("comment extractors", () => {
+  test("extracts issue comments with their target", () => {
+    const { measureName, values } = extract("issue_comment", {
+      action: "created",
+      issue: { ...issue, pull_request: { url: "https://example.com" } },
+      comment: comment(500, "2025-05-04T12:00:00Z"),
+    });
+
+    expect(measureName).toBe("issue_comment");
+    expect(values).toMatchObject({
+      issue_cmt_action: "created",
+      issue_cmt_target: "pull_request",
+      issue_cmt_target_number: "8",
+      issue_cmt_cmt_id: "500",
+      issue_cmt_cmt_body_length: "5",
+      issue_cmt_cmt_created_at: String(Date.parse("2025-05-04T12:00:00Z")),
+      issue_cmt_cmt_author_association: "MEMBER",
+      issue_cmt_cmt_user_id: "1",
+      issue_cmt_cmt_user_login: "octocat",
+    });
+  });
+
+  test("extracts pull request review comments with their review and position", () => {
+    const { measureName, values } = extract("pull_request_review_comment", {
+      action: "created",
+      pull_request: pullRequest,
+      comment: comment(501, "2025-05-04T12:00:00Z", {
+        pull_request_review_id: 600,
+        path: "src/index.ts",
+        commit_id: "def",
+      }),
+    });
+
+    expect(measureName).toBe("pull_request_review_comment");
+    expect(values).toMatchObject({
+      pr_rv_cmt_action: "created",
+      pr_rv_cmt_target: "pull_request",
+      pr_rv_cmt_target_number: "7",
+      pr_rv_cmt_review_id: "600",
+      pr_rv_cmt_path: "src/index.ts",
+      pr_rv_cmt_commit_id: "def",
+      pr_rv_cmt_cmt_id: "501",
+    });
+    expect(values.pr_rv_cmt_in_reply_to_id).toBeUndefined();
+  });
+
+  test("extracts review threads from their first and last comments", () => {
+    const { measureName, values } = extract("pull_request_review_thread", {
+      action: "resolved",
+      pull_request: pullRequest,
+      thread: {
+        node_id: "PRRT_1",
+        comments: [
+          comment(502, "2025-05-04T12:00:00Z"),
+          comment(503, "2025-05-04T13:00:00Z"),
+        ],
+      },
+    });
+
+    expect(measureName).toBe("pull_request_review_thread");
+    expect(values).toMatchObject({
+      pr_rv_thread_action: "resolved",
+      pr_rv_thread_node_id: "PRRT_1",
+      pr_rv_thread_target_number: "7",
+      pr_rv_thread_comments_length: "2",
+      pr_rv_thread_cmt_id: "502",
+      pr_rv_thread_last_cmt_created_at: String(
+        Date.parse("2025-05-04T13:00:00Z"),
+      ),
+    });
+  });
+
+  test("extracts commit comments", () => {
+    const { measureName, values } = extract("commit_comment", {
+      action: "created",
+      comment: comment(504, "2025-05-04T12:00:00Z", {
+        commit_id: "abc",
+        path: "README.md",
+      }),
+    });
+
+    expect(measureName).toBe("commit_comment");
+    expect(values).toMatchObject({
+      commit_cmt_action: "created",
+      commit_cmt_target: "commit",
+      commit_cmt_commit_id: "abc",
+      commit_cmt_path: "README.md",
+      commit_cmt_cmt_id: "504",
+      commit_cmt_cmt_user_login: "octocat",
+    });
+  });
+});
+
+describe("workflow job and check extractors", () => {
+  test("extracts workflow jobs with queue, run and step durations", () => {
+    const { measureName, values } = extract("workflow_job", {
+      action: "completed",
+      workflow_job: {
+        id: 700,
+        run_id: 701,
+        run_attempt: 1,
+        name: "build",
+        workflow_name: "CI",
+        head_branch: "main",
+        head_sha: "abc",
+        status: "completed",
+        conclusion: "success",
+        created_at: "2025-05-04T12:00:00Z",
+        started_at: "2025-05-04T12:01:00Z",
+        completed_at: "2025-05-04T12:06:00Z",
+        labels: ["self-hosted", "linux"],
+        runner_id: 10,
+        runner_name: "runner-1",
+        runner_group_id: 1,
+        runner_group_name: "Default",
+        steps: [
+          {
+            name: "Checkout",
+            status: "completed",
+            conclusion: "success",
+            started_at: "2025-05-04T12:01:00Z",
+            completed_at: "2025-05-04T12:01:10Z",
+          },
+          {
+            name: "Test",
+            status: "completed",
+            conclusion: "failure",
+            started_at: "2025-05-04T12:01:10Z",
+            completed_at: "2025-05-04T12:06:00Z",
+          },
+        ],
+      },
+    });
+
+    expect(measureName).toBe("workflow_job");
+    expect(values).toMatchObject({
+      wf_job_action: "completed",
+      wf_job_id: "700",
+      wf_job_run_id: "701",
+      wf_job_name: "build",
+      wf_job_wf_name: "CI",
+      wf_job_conclusion: "success",
+      wf_job_queued_duration: "60000",
+      wf_job_run_duration: "300000",
+      wf_job_self_hosted: "true",
+      wf_job_runner_name: "runner-1",
+      wf_job_steps_length: "2",
+      wf_job_steps_0_name: "Checkout",
+      wf_job_steps_0_duration: "10000",
+      wf_job_steps_1_conclusion: "failure",
+    });
+  });
+
+  test("extracts check runs", () => {
+    const { measureName, values } = extract("check_run", {
+      action: "completed",
+      check_run: {
+        id: 800,
+        name: "lint",
+        head_sha: "abc",
+        status: "completed",
+        conclusion: "neutral",
+        started_at: "2025-05-04T12:00:00Z",
+        completed_at: "2025-05-04T12:00:30Z",
+        app: { slug: "github-actions" },
+        check_suite: { id: 900 },
+      },
+    });
+
+    expect(measureName).toBe("check_run");
+    expect(values).toMatchObject({
+      check_run_action: "completed",
+      check_run_id: "800",
+      check_run_conclusion: "neutral",
+      check_run_app_slug: "github-actions",
+      check_run_check_suite_id: "900",
+      check_run_run_duration: "30000",
+    });
+  });
+
+  test("measures check suites only once they are completed", () => {
+    const checkSuite = {
+      id: 900,
+      head_sha: "abc",
+      head_branch: "main",
+      created_at: "2025-05-04T12:00:00Z",
+      updated_at: "2025-05-04T12:02:00Z",
+      app: { slug: "github-actions" },
+      latest_check_runs_count: 3,
+    };
+    const completed = extract("check_suite", {
+      action: "completed",
+      check_suite: { ...checkSuite, status: "completed", conclusion: "success" },
+    });
+    const requested = extract("check_suite", {
+      action: "requested",
+      check_suite: { ...checkSuite, status: "queued", conclusion: null },
+    });
+
+    expect(completed.measureName).toBe("check_suite");
+    expect(completed.values).toMatchObject({
+      check_suite_id: "900",
+      check_suite_status: "completed",
+      check_suite_conclusion: "success",
+      check_suite_check_runs_length: "3",
+      check_suite_run_duration: "120000",
+    });
+    expect(requested.values.check_suite_run_duration).toBeUndefined();
+  });
+});
+
+describe("deployment, release, create and delete extractors", () => {
+  const deployment = {
+    id: 1000,
+    environment: "production",
+    sha: "abc",
+    ref: "main",
+    task: "deploy",
+    created_at: "2025-05-04T12:00:00Z",
+    updated_at: "2025-05-04T12:00:00Z",
+    production_environment: true,
+    transient_environment: false,
+    creator: user,
+  };
+
+  test("extracts deployments", () => {
+    const { measureName, values } = extract("deployment", {
+      action: "created",
+      deployment,
+    });
+
+    expect(measureName).toBe("deployment");
+    expect(values).toMatchObject({
+      deploy_action: "created",
+      deploy_deploy_id: "1000",
+      deploy_deploy_environment: "production",
+      deploy_deploy_production_environment: "true",
+      deploy_deploy_creator_login: "octocat",
+    });
+  });
+
+  test("extracts deployment statuses with the time since the deployment", () => {
+    const { measureName, values } = extract("deployment_status", {
+      action: "created",
+      deployment,
+      deployment_status: {
+        id: 1001,
+        state: "success",
+        environment: "production",
+        created_at: "2025-05-04T12:10:00Z",
+        updated_at: "2025-05-04T12:10:00Z",
+        creator: user,
+      },
+    });
+
+    expect(measureName).toBe("deployment_status");
+    expect(values).toMatchObject({
+      deploy_st_id: "1001",
+      deploy_st_state: "success",
+      deploy_st_environment: "production",
+      deploy_st_since_deploy_created: "600000",
+      deploy_st_deploy_id: "1000",
+      deploy_st_deploy_sha: "abc",
+    });
+  });
+
+  test("extracts releases", () => {
+    const { measureName, values } = extract("release", {
+      action: "published",
+      release: {
+        id: 1100,
+        tag_name: "v1.0.0",
+        target_commitish: "main",
+        draft: false,
+        prerelease: true,
+        name: "",
+        created_at: "2025-05-04T12:00:00Z",
+        published_at: "2025-05-04T12:30:00Z",
+        author: user,
+      },
+    });
+
+    expect(measureName).toBe("release");
+    expect(values).toMatchObject({
+      release_action: "published",
+      release_id: "1100",
+      release_tag_name: "v1.0.0",
+      release_draft: "false",
+      release_prerelease: "true",
+      release_published_at: String(Date.parse("2025-05-04T12:30:00Z")),
+      release_author_login: "octocat",
+    });
+    expect(values.release_name).toBeUndefined();
+  });
+
+  test("extracts created and deleted refs", () => {
+    const created = extract("create", {
+      ref: "feature",
+      ref_type: "branch",
+      pusher_type: "user",
+      master_branch: "main",
+    });
+    const deleted = extract("delete", {
+      ref: "v0.9.0",
+      ref_type: "tag",
+      pusher_type: "user",
+    });
+
+    expect(created.measureName).toBe("create");
+    expect(created.values).toMatchObject({
+      create_ref: "feature",
+      create_ref_type: "branch",
+      create_master_branch: "main",
+    });
+    expect(deleted.measureName).toBe("delete");
+    expect(deleted.values).toMatchObject({
+      delete_ref: "v0.9.0",
+      delete_ref_type: "tag",
+      delete_pusher_type: "user",
+    });
+  });
+});
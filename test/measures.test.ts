@@ -0,0 +1,268 @@
+import { createPseudonymizer } from "../src/lambdas/common/pseudonymization";
+import {
+  defineMeasureExtractor,
+  getMeasures,
+  registerMeasureExtractor,
+} from "../src/lambdas/webhook-worker/measures";
+
+const user = { id: 1, login: "octocat" };
+
+const pullRequest = {
+  author_association: "MEMBER",
+  base: { label: "org:main", ref: "main", sha: "abc", user },
+  created_at: "2025-05-04T10:41:38Z",
+  updated_at: "2025-05-04T11:41:38Z",
+  draft: false,
+  id: 100,
+  locked: false,
+  number: 7,
+  state: "open",
+  assignee: null,
+  assignees: [],
+  labels: [{ name: "bug" }],
+  merged_at: null,
+  closed_at: null,
+  user,
+  commits: 2,
+  review_comments: 0,
+  merged: false,
+};
+
+function valueOf(measure: any, name: string) {
+  return measure.measureValues.find((value: any) => value.Name === name);
+}
+
+describe("getMeasures", () => {
+  test("returns undefined for events without an extractor", () => {
+    expect(getMeasures("star", { action: "created" })).toBeUndefined();
+  });
+
+  test("converts values using the column schema", () => {
+    const [measure] = getMeasures("pull_request", {
+      action: "assigned",
+      number: 7,
+      assignee: user,
+      pull_request: pullRequest,
+    })!;
+
+    expect(measure?.measureName).toBe("pull_request");
+    expect(valueOf(measure, "pr_assignee_login")).toEqual({
+      Name: "pr_assignee_login",
+      Type: "VARCHAR",
+      Value: "octocat",
+    });
+    expect(valueOf(measure, "pr_pr_created_at")).toEqual({
+      Name: "pr_pr_created_at",
+      Type: "TIMESTAMP",
+      Value: String(Date.parse("2025-05-04T10:41:38Z")),
+    });
+    expect(valueOf(measure, "pr_pr_labels_0_name")?.Value).toBe("bug");
+    expect(valueOf(measure, "pr_pr_closed_at")).toBeUndefined();
+    expect(valueOf(measure, "pr_pr_user_kind")?.Value).toBe("human");
+  });
+
+  test("resolves the time the event happened", () => {
+    const [measure] = getMeasures("pull_request", {
+      action: "edited",
+      number: 7,
+      pull_request: pullRequest,
+    })!;
+    expect(measure.time).toBe(String(Date.parse("2025-05-04T11:41:38Z")));
+
+    const [created] = getMeasures("create", {
+      ref: "v1.0.0",
+      ref_type: "tag",
+      pusher_type: "user",
+    })!;
+    expect(created.time).toBeUndefined();
+  });
+
+  test("pseudonymizes identity columns", () => {
+    const pseudonymizer = createPseudonymizer("key");
+    const [measure] = getMeasures(
+      "pull_request",
+      {
+        action: "assigned",
+        number: 7,
+        assignee: user,
+        pull_request: pullRequest,
+      },
+      { pseudonymizer },
+    )!;
+
+    expect(valueOf(measure, "pr_assignee_login")?.Value).toBe(
+      pseudonymizer.login("OctoCat"),
+    );
+    expect(valueOf(measure, "pr_assignee_id")?.Value).toMatch(/^\d+$/);
+    expect(valueOf(measure, "pr_assignee_id")?.Value).not.toBe("1");
+    expect(valueOf(measure, "pr_pr_number")?.Value).toBe("7");
+    expect(pseudonymizer.takeCreatedTokens().get(pseudonymizer.id(1))).toEqual({
+      kind: "id",
+      value: "1",
+    });
+  });
+
+  test("pseudonymizes deployment creators and release authors", () => {
+    const pseudonymizer = createPseudonymizer("key");
+    const deployment = {
+      id: 300,
+      environment: "production",
+      sha: "abc",
+      ref: "main",
+      task: "deploy",
+      created_at: "2025-05-04T10:41:38Z",
+      updated_at: "2025-05-04T10:41:38Z",
+      creator: user,
+    };
+    const [deploymentStatus] = getMeasures(
+      "deployment_status",
+      {
+        action: "created",
+        deployment,
+        deployment_status: {
+          id: 301,
+          state: "success",
+          environment: "production",
+          created_at: "2025-05-04T10:51:38Z",
+          updated_at: "2025-05-04T10:51:38Z",
+          creator: user,
+        },
+      },
+      { pseudonymizer },
+    )!;
+    const [release] = getMeasures(
+      "release",
+      {
+        action: "published",
+        release: {
+          id: 400,
+          tag_name: "v1.0.0",
+          target_commitish: "main",
+          draft: false,
+          prerelease: false,
+          name: "v1.0.0",
+          created_at: "2025-05-04T10:41:38Z",
+          published_at: "2025-05-04T10:41:38Z",
+          author: user,
+        },
+      },
+      { pseudonymizer },
+    )!;
+
+    const token = pseudonymizer.id(1);
+    expect(valueOf(deploymentStatus, "deploy_st_creator_id")?.Value).toBe(
+      token,
+    );
+    expect(
+      valueOf(deploymentStatus, "deploy_st_deploy_creator_id")?.Value,
+    ).toBe(token);
+    expect(valueOf(release, "release_author_id")?.Value).toBe(token);
+    expect(valueOf(release, "release_author_login")?.Value).toBe(
+      pseudonymizer.login("octocat"),
+    );
+  });
+
+  test("includes the issue assignee", () => {
+    const [measure] = getMeasures("issues", {
+      action: "opened",
+      issue: {
+        assignee: user,
+        assignees: [user],
+        labels: [],
+        author_association: "MEMBER",
+        closed_at: null,
+        comments: 0,
+        created_at: "2025-05-04T10:41:38Z",
+        id: 200,
+        locked: false,
+        number: 8,
+        state: "open",
+        updated_at: "2025-05-04T10:41:38Z",
+        user,
+      },
+    })!;
+
+    expect(valueOf(measure, "issues_issue_assignee_login")?.Value).toBe(
+      "octocat",
+    );
+  });
+
+  test("writes one record per commit of a push", () => {
+    const commit = {
+      id: "c1",
+      timestamp: "2025-05-04T10:41:38Z",
+      distinct: true,
+      author: { username: "octocat", email: "octocat@Example.com" },
+      committer: { username: "web-flow", email: "noreply@github.com" },
+      added: ["a.ts"],
+      modified: ["b.ts", "c.ts"],
+      removed: [],
+    };
+    const measures = getMeasures("push", {
+      after: "c2",
+      before: "c0",
+      base_ref: null,
+      commits: [commit, { ...commit, id: "c2" }],
+      created: false,
+      deleted: false,
+      forced: false,
+      pusher: { name: "octocat" },
+      ref: "refs/heads/main",
+    })!;
+
+    expect(measures.map((measure) => measure.measureName)).toEqual([
+      "push",
+      "push_commit",
+      "push_commit",
+    ]);
+    expect(measures[2].dimensions).toEqual([
+      { Name: "push_commit_id", Value: "c2" },
+    ]);
+    expect(valueOf(measures[1], "push_commit_id")).toBeUndefined();
+    expect(valueOf(measures[1], "push_commit_author_email_domain")?.Value).toBe(
+      "example.com",
+    );
+    expect(valueOf(measures[1], "push_commit_modified_length")?.Value).toBe(
+      "2",
+    );
+  });
+
+  test("prefers extractors registered for an action", () => {
+    registerMeasureExtractor(
+      defineMeasureExtractor({
+        event: "label.created",
+        measureName: "label_created",
+        columns: { label_name: "VARCHAR" },
+        extract: (payload) => ({ label_name: payload.label.name }),
+      }),
+    );
+
+    expect(
+      getMeasures("label", { action: "created", label: { name: "bug" } }),
+    ).toEqual([
+      {
+        measureName: "label_created",
+        measureValueType: "MULTI",
+        measureValues: [{ Name: "label_name", Type: "VARCHAR", Value: "bug" }],
+      },
+    ]);
+    expect(
+      getMeasures("label", { action: "deleted", label: { name: "bug" } }),
+    ).toBeUndefined();
+  });
+
+  test("rejects columns missing from the schema", () => {
+    registerMeasureExtractor(
+      defineMeasureExtractor({
+        event: "watch",
+        measureName: "watch",
+        columns: {},
+        extract: (payload) => ({ watch_action: payload.action }),
+      }),
+    );
+
+    expect(() => getMeasures("watch", { action: "started" })).toThrow(
+      'Column "watch_action" is not declared in the schema of measure "watch"',
+    );
+  });
+});
@@ -0,0 +1,128 @@
+import {
+  PullRequestActivity,
+  summarizeChurnByPathPrefix,
+  summarizePullRequest,
+} from "../src/lambdas/sns-handler/enrichment";
+
+const author = { id: 1, login: "octocat" };
+const reviewer = { id: 2, login: "hubot" };
+
+function activity(
+  overrides: Partial<PullRequestActivity> = {},
+): PullRequestActivity {
+  return {
+    pullRequest: {
+      user: author,
+      draft: false,
+      created_at: "2025-05-01T00:00:00Z",
+      closed_at: null,
+      changed_files: 2,
+      additions: 30,
+      deletions: 5,
+    },
+    commits: [
+      {
+        commit: {
+          author: { date: "2025-04-30T12:00:00Z" },
+          committer: { date: "2025-05-01T00:00:00Z" },
+        },
+      },
+      {
+        commit: {
+          author: { date: "2025-05-02T00:00:00Z" },
+          committer: { date: "2025-05-02T00:00:00Z" },
+        },
+      },
+    ],
+    reviews: [
+      {
+        user: reviewer,
+        state: "CHANGES_REQUESTED",
+        submitted_at: "2025-05-01T12:00:00Z",
+      },
+      {
+        user: reviewer,
+        state: "COMMENTED",
+        submitted_at: "2025-05-01T13:00:00Z",
+      },
+      {
+        user: author,
+        state: "COMMENTED",
+        submitted_at: "2025-05-01T14:00:00Z",
+      },
+      {
+        user: reviewer,
+        state: "APPROVED",
+        submitted_at: "2025-05-03T00:00:00Z",
+      },
+    ],
+    requestedReviewers: { users: [reviewer], teams: [{ slug: "core" }] },
+    files: [],
+    timeline: [
+      { event: "head_ref_force_pushed", created_at: "2025-05-02T06:00:00Z" },
+    ],
+    ...overrides,
+  };
+}
+
+describe("summarizePullRequest", () => {
+  test("summarizes commits, reviews and force-pushes", () => {
+    expect(summarizePullRequest(activity())).toEqual({
+      changedFiles: 2,
+      additions: 30,
+      deletions: 5,
+      commits: 2,
+      firstCommitTime: Date.parse("2025-04-30T12:00:00Z"),
+      firstReviewTime: Date.parse("2025-05-01T12:00:00Z"),
+      // Reviews by the author are not counted
+      reviews: 3,
+      // A new round starts after the commit pushed on May 2nd
+      reviewRounds: 2,
+      requestedReviewers: 2,
+      forcePushes: 1,
+      draftSeconds: 0,
+    });
+  });
+
+  test("sums the time spent in draft", () => {
+    const timeline = [
+      // Opened as a draft on May 1st
+      { event: "ready_for_review", created_at: "2025-05-01T01:00:00Z" },
+      { event: "convert_to_draft", created_at: "2025-05-02T00:00:00Z" },
+      { event: "ready_for_review", created_at: "2025-05-02T00:30:00Z" },
+    ];
+    expect(summarizePullRequest(activity({ timeline })).draftSeconds).toBe(
+      90 * 60,
+    );
+
+    const stillDraft = activity({ timeline: [] });
+    stillDraft.pullRequest.draft = true;
+    expect(
+      summarizePullRequest(stillDraft, Date.parse("2025-05-01T02:00:00Z"))
+        .draftSeconds,
+    ).toBe(2 * 60 * 60);
+  });
+
+  test("omits the first review time of an unreviewed pull request", () => {
+    const summary = summarizePullRequest(activity({ reviews: [] }));
+    expect(summary.firstReviewTime).toBeUndefined();
+    expect(summary.reviewRounds).toBe(0);
+  });
+});
+
+describe("summarizeChurnByPathPrefix", () => {
+  test("groups files by their leading directories", () => {
+    const files = [
+      { filename: "src/lib/storage.ts", additions: 10, deletions: 2 },
+      { filename: "src/main.ts", additions: 5, deletions: 0 },
+      { filename: "test/main.test.ts", additions: 3, deletions: 1 },
+      { filename: "README.md", additions: 1, deletions: 1 },
+    ];
+    expect(summarizeChurnByPathPrefix(files)).toEqual([
+      { pathPrefix: "src", files: 2, additions: 15, deletions: 2 },
+      { pathPrefix: "test", files: 1, additions: 3, deletions: 1 },
+      { pathPrefix: "/", files: 1, additions: 1, deletions: 1 },
+    ]);
+    expect(summarizeChurnByPathPrefix(files, 2)[0].pathPrefix).toBe("src/lib");
+  });
+});
@@ -0,0 +1,44 @@
+import { summarizePullRequestLifecycle } from "../src/lambdas/webhook-worker/pr-lifecycle";
+
+describe("summarizePullRequestLifecycle", () => {
+  test("derives the lead time and review metrics of a merged pull request", () => {
+    expect(
+      summarizePullRequestLifecycle(
+        {
+          created_at: "2025-05-01T00:00:00Z",
+          closed_at: "2025-05-02T00:00:00Z",
+          merged_at: "2025-05-02T00:00:00Z",
+        },
+        {
+          firstReviewAt: Date.parse("2025-05-01T02:00:00Z"),
+          reviews: 3,
+          reviewCycles: 2,
+        },
+      ),
+    ).toEqual({
+      outcome: "merged",
+      createdAt: Date.parse("2025-05-01T00:00:00Z"),
+      closedAt: Date.parse("2025-05-02T00:00:00Z"),
+      leadTimeSeconds: 24 * 60 * 60,
+      openSeconds: 24 * 60 * 60,
+      timeToFirstReviewSeconds: 2 * 60 * 60,
+      reviews: 3,
+      reviewCycles: 2,
+    });
+  });
+
+  test("marks pull requests closed without merging as abandoned", () => {
+    const lifecycle = summarizePullRequestLifecycle(
+      {
+        created_at: "2025-05-01T00:00:00Z",
+        closed_at: "2025-05-01T06:00:00Z",
+        merged_at: null,
+      },
+      { reviews: 0, reviewCycles: 0 },
+    );
+    expect(lifecycle.outcome).toBe("abandoned");
+    expect(lifecycle.leadTimeSeconds).toBeUndefined();
+    expect(lifecycle.timeToFirstReviewSeconds).toBeUndefined();
+    expect(lifecycle.openSeconds).toBe(6 * 60 * 60);
+  });
+});
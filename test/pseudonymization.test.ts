@@ -0,0 +1,194 @@
+import { BatchWriteItemCommand, DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import {
+  createPseudonymizer,
+  pseudonymizeRecord,
+  savePseudonyms,
+} from "../src/lambdas/common/pseudonymization";
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("createPseudonymizer", () => {
+  test("replaces logins with 32 hexadecimal characters regardless of case", () => {
+    const pseudonymizer = createPseudonymizer("key");
+
+    const token = pseudonymizer.login("OctoCat");
+    expect(token).toMatch(/^[0-9a-f]{32}$/);
+    expect(pseudonymizer.login("octocat")).toBe(token);
+    expect(pseudonymizer.login("hubot")).not.toBe(token);
+  });
+
+  test("replaces user IDs with integers within the safe integer range", () => {
+    const pseudonymizer = createPseudonymizer("key");
+
+    const token = pseudonymizer.id(583231);
+    expect(token).toMatch(/^\d+$/);
+    expect(Number(token)).toBeLessThan(2 ** 48);
+    expect(pseudonymizer.id("583231")).toBe(token);
+    // Logins and IDs with the same text do not share tokens
+    expect(pseudonymizer.login("583231")).not.toBe(token);
+  });
+
+  test("derives tokens from the key", () => {
+    expect(createPseudonymizer("key").login("octocat")).toBe(
+      createPseudonymizer("key").login("octocat"),
+    );
+    expect(createPseudonymizer("key").login("octocat")).not.toBe(
+      createPseudonymizer("other-key").login("octocat"),
+    );
+  });
+
+  test("hands over the created tokens once", () => {
+    const pseudonymizer = createPseudonymizer("key");
+    const login = pseudonymizer.login("OctoCat");
+    const id = pseudonymizer.id(1);
+
+    expect(pseudonymizer.takeCreatedTokens()).toEqual(
+      new Map([
+        [login, { kind: "login", value: "octocat" }],
+        [id, { kind: "id", value: "1" }],
+      ]),
+    );
+    expect(pseudonymizer.takeCreatedTokens().size).toBe(0);
+  });
+});
+
+describe("pseudonymizeRecord", () => {
+  const pseudonymizer = createPseudonymizer("key");
+
+  test("pseudonymizes dimensions and measure values named like identities", () => {
+    const record = {
+      Dimensions: [
+        { Name: "team", Value: "platform" },
+        { Name: "reviewer_login", Value: "OctoCat" },
+      ],
+      MeasureName: "review",
+      MeasureValueType: "MULTI" as const,
+      MeasureValues: [
+        { Name: "review_user_id", Value: "1", Type: "BIGINT" as const },
+        { Name: "review_comments", Value: "3", Type: "BIGINT" as const },
+      ],
+    };
+
+    pseudonymizeRecord(record, pseudonymizer);
+
+    expect(record.Dimensions).toEqual([
+      { Name: "team", Value: "platform" },
+      { Name: "reviewer_login", Value: pseudonymizer.login("octocat") },
+    ]);
+    expect(record.MeasureValues).toEqual([
+      { Name: "review_user_id", Value: pseudonymizer.id(1), Type: "BIGINT" },
+      { Name: "review_comments", Value: "3", Type: "BIGINT" },
+    ]);
+  });
+
+  test("pseudonymizes a single measure value named like an identity", () => {
+    const login = {
+      MeasureName: "oncall_login",
+      MeasureValueType: "VARCHAR" as const,
+      MeasureValue: "OctoCat",
+    };
+    const id = {
+      MeasureName: "oncall_user_id",
+      MeasureValueType: "BIGINT" as const,
+      MeasureValue: "1",
+    };
+    const count = {
+      MeasureName: "incidents",
+      MeasureValueType: "BIGINT" as const,
+      MeasureValue: "2",
+    };
+
+    [login, id, count].forEach((record) =>
+      pseudonymizeRecord(record, pseudonymizer),
+    );
+
+    expect(login.MeasureValue).toBe(pseudonymizer.login("octocat"));
+    expect(id.MeasureValue).toBe(pseudonymizer.id(1));
+    expect(count.MeasureValue).toBe("2");
+  });
+});
+
+describe("savePseudonyms", () => {
+  function mockBatchWrite() {
+    return (
+      jest.spyOn(DynamoDBClient.prototype, "send") as jest.SpyInstance
+    ).mockResolvedValue({});
+  }
+
+  function writtenItems(send: jest.SpyInstance) {
+    return send.mock.calls.flatMap(([command]) =>
+      (command as BatchWriteItemCommand).input.RequestItems!.pseudonyms.map(
+        (request) => request.PutRequest!.Item,
+      ),
+    );
+  }
+
+  test("writes the created tokens to the reverse-lookup table", async () => {
+    const send = mockBatchWrite();
+    const pseudonymizer = createPseudonymizer("save");
+    const login = pseudonymizer.login("OctoCat");
+    const id = pseudonymizer.id(1);
+
+    await savePseudonyms("pseudonyms", pseudonymizer);
+
+    expect(writtenItems(send)).toEqual([
+      { token: { S: login }, kind: { S: "login" }, value: { S: "octocat" } },
+      { token: { S: id }, kind: { S: "id" }, value: { S: "1" } },
+    ]);
+  });
+
+  test("writes in batches of 25 and retries unprocessed items", async () => {
+    const send = mockBatchWrite();
+    const pseudonymizer = createPseudonymizer("batch");
+    const tokens = Array.from({ length: 30 }, (_, i) => pseudonymizer.id(i));
+    const unprocessed = {
+      PutRequest: {
+        Item: {
+          token: { S: tokens[0] },
+          kind: { S: "id" },
+          value: { S: "0" },
+        },
+      },
+    };
+    send.mockResolvedValueOnce({
+      UnprocessedItems: { pseudonyms: [unprocessed] },
+    });
+
+    await savePseudonyms("pseudonyms", pseudonymizer);
+
+    expect(
+      send.mock.calls.map(
+        ([command]) =>
+          (command as BatchWriteItemCommand).input.RequestItems!.pseudonyms
+            .length,
+      ),
+    ).toEqual([25, 1, 5]);
+  });
+
+  test("skips tokens already written by the Lambda container", async () => {
+    const send = mockBatchWrite();
+    const pseudonymizer = createPseudonymizer("skip");
+    pseudonymizer.login("octocat");
+    await savePseudonyms("pseudonyms", pseudonymizer);
+
+    pseudonymizer.login("octocat");
+    const token = pseudonymizer.login("hubot");
+    await savePseudonyms("pseudonyms", pseudonymizer);
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(writtenItems(send)[1]?.token).toEqual({ S: token });
+  });
+
+  test("only discards the tokens without a table", async () => {
+    const send = mockBatchWrite();
+    const pseudonymizer = createPseudonymizer("no-table");
+    pseudonymizer.login("octocat");
+
+    await savePseudonyms(undefined, pseudonymizer);
+
+    expect(send).not.toHaveBeenCalled();
+    expect(pseudonymizer.takeCreatedTokens().size).toBe(0);
+  });
+});
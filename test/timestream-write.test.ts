@@ -0,0 +1,85 @@
+import {
+  RejectedRecordsException,
+  TimestreamWriteClient,
+  WriteRecordsCommand,
+  _Record,
+} from "@aws-sdk/client-timestream-write";
+import { writeTimestreamRecords } from "../src/lambdas/common/timestream-write";
+
+function toRecords(count: number): _Record[] {
+  return Array.from({ length: count }, (_, i) => ({
+    MeasureName: "count",
+    MeasureValue: i.toString(),
+    Time: "1746057600000",
+  }));
+}
+
+function mockSend() {
+  return jest.spyOn(
+    TimestreamWriteClient.prototype,
+    "send",
+  ) as jest.SpyInstance;
+}
+
+beforeEach(() => {
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("writeTimestreamRecords", () => {
+  test("writes records in batches of at most 100", async () => {
+    const send = mockSend().mockResolvedValue({});
+
+    const results = await writeTimestreamRecords("db", "table", toRecords(250));
+
+    expect(results).toHaveLength(3);
+    expect(
+      send.mock.calls.map(([command]) => {
+        const input = (command as WriteRecordsCommand).input;
+        return [input.DatabaseName, input.TableName, input.Records!.length];
+      }),
+    ).toEqual([
+      ["db", "table", 100],
+      ["db", "table", 100],
+      ["db", "table", 50],
+    ]);
+  });
+
+  test("logs rejected records and writes the remaining batches", async () => {
+    const send = mockSend()
+      .mockRejectedValueOnce(
+        new RejectedRecordsException({
+          message: "One or more records have been rejected",
+          $metadata: {},
+          RejectedRecords: [{ RecordIndex: 1, Reason: "Record is too old" }],
+        }),
+      )
+      .mockResolvedValue({});
+
+    const results = await writeTimestreamRecords("db", "table", toRecords(150));
+
+    expect(results).toHaveLength(1);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(console.warn).toHaveBeenCalledWith(
+      "Timestream rejected records:",
+      JSON.stringify([
+        { record: toRecords(2)[1], reason: "Record is too old" },
+      ]),
+    );
+  });
+
+  test("stops at other errors", async () => {
+    const send = mockSend().mockRejectedValue(
+      new Error("ThrottlingException"),
+    );
+
+    await expect(
+      writeTimestreamRecords("db", "table", toRecords(150)),
+    ).rejects.toThrow("ThrottlingException");
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,182 @@
+import {
+  GetParameterCommand,
+  GetParametersByPathCommand,
+  ParameterVersionNotFound,
+  SSMClient,
+} from "@aws-sdk/client-ssm";
+import {
+  findWebhookSecretSource,
+  getWebhookSecrets,
+} from "../src/lambdas/webhook-handler/webhook-secrets";
+
+// Signatures are not verified in these tests, and Jest cannot load the ES module
+jest.mock("@octokit/webhooks", () => ({ Webhooks: jest.fn() }));
+
+const secretsPath = "/github/metrics/webhook-secrets";
+const globalParameterName = "/github/metrics/secret-token";
+
+let now = Date.parse("2025-05-01T00:00:00Z");
+
+/**
+ * Replace SSM Parameter Store with in-memory parameters
+ * @param parameters Parameter name -> versions, oldest first
+ * @param lastModifiedDate Time the latest versions were stored
+ */
+function mockParameters(
+  parameters: Record<string, string[]>,
+  lastModifiedDate = new Date(now),
+) {
+  return (
+    jest.spyOn(SSMClient.prototype, "send") as jest.SpyInstance
+  ).mockImplementation(async (command: any) => {
+    if (command instanceof GetParametersByPathCommand) {
+      // Return one parameter per page to exercise pagination
+      const names = Object.keys(parameters).filter((name) =>
+        name.startsWith(`${command.input.Path}/`),
+      );
+      const index = Number(command.input.NextToken ?? "0");
+      return {
+        Parameters: names.slice(index, index + 1).map((Name) => ({ Name })),
+        NextToken: index + 1 < names.length ? String(index + 1) : undefined,
+      };
+    }
+    if (command instanceof GetParameterCommand) {
+      const [name, version] = command.input.Name!.split(":");
+      const versions = parameters[name];
+      const value = versions?.[(Number(version) || versions.length) - 1];
+      if (!value) {
+        throw new ParameterVersionNotFound({ message: "", $metadata: {} });
+      }
+      return {
+        Parameter: {
+          Name: name,
+          Value: value,
+          Version: versions.length,
+          LastModifiedDate: lastModifiedDate,
+        },
+      };
+    }
+    throw new Error(`Unexpected command ${command.constructor.name}`);
+  });
+}
+
+beforeEach(() => {
+  // Expire the mapping cached by the previous test
+  now += 60 * 60 * 1000;
+  jest.useFakeTimers({ now });
+  jest.spyOn(console, "warn").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe("findWebhookSecretSource", () => {
+  const payload = {
+    repository: { full_name: "Octo-Org/Hello-World" },
+    organization: { login: "Octo-Org" },
+  };
+
+  test("prefers the secret mapped to the repository", async () => {
+    mockParameters({
+      [`${secretsPath}/orgs/octo-org`]: ["org-secret"],
+      [`${secretsPath}/repos/octo-org/hello-world`]: ["repo-secret"],
+    });
+
+    expect(
+      await findWebhookSecretSource(secretsPath, globalParameterName, payload),
+    ).toEqual({
+      scope: "repository",
+      key: "Octo-Org/Hello-World",
+      parameterName: `${secretsPath}/repos/octo-org/hello-world`,
+    });
+  });
+
+  test("uses the secret mapped to the organization of other repositories", async () => {
+    mockParameters({
+      [`${secretsPath}/orgs/octo-org`]: ["org-secret"],
+      [`${secretsPath}/repos/octo-org/other`]: ["repo-secret"],
+    });
+
+    expect(
+      await findWebhookSecretSource(secretsPath, globalParameterName, payload),
+    ).toEqual({
+      scope: "organization",
+      key: "Octo-Org",
+      parameterName: `${secretsPath}/orgs/octo-org`,
+    });
+  });
+
+  test("falls back to the global secret for unmapped sources", async () => {
+    mockParameters({ [`${secretsPath}/orgs/other-org`]: ["org-secret"] });
+
+    expect(
+      await findWebhookSecretSource(secretsPath, globalParameterName, payload),
+    ).toEqual({ scope: "global", parameterName: globalParameterName });
+    expect(
+      await findWebhookSecretSource(
+        secretsPath,
+        globalParameterName,
+        undefined,
+      ),
+    ).toEqual({ scope: "global", parameterName: globalParameterName });
+  });
+
+  test("caches the mapping", async () => {
+    const send = mockParameters({
+      [`${secretsPath}/orgs/octo-org`]: ["org-secret"],
+    });
+
+    await findWebhookSecretSource(secretsPath, globalParameterName, payload);
+    await findWebhookSecretSource(secretsPath, globalParameterName, payload);
+    expect(send).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(5 * 60 * 1000 + 1);
+    await findWebhookSecretSource(secretsPath, globalParameterName, payload);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("getWebhookSecrets", () => {
+  const gracePeriod = 24 * 60 * 60 * 1000;
+
+  test("accepts only the secret of a parameter that has not been rotated", async () => {
+    mockParameters({ [globalParameterName]: ["first"] });
+
+    expect(await getWebhookSecrets(globalParameterName, gracePeriod)).toEqual([
+      { label: "current", version: 1, value: "first" },
+    ]);
+  });
+
+  test("accepts the previous secret during the grace period", async () => {
+    mockParameters(
+      { [globalParameterName]: ["first", "second"] },
+      new Date(now - gracePeriod + 1000),
+    );
+
+    expect(await getWebhookSecrets(globalParameterName, gracePeriod)).toEqual([
+      { label: "current", version: 2, value: "second" },
+      { label: "previous", version: 1, value: "first" },
+    ]);
+  });
+
+  test("stops accepting the previous secret after the grace period", async () => {
+    mockParameters(
+      { [globalParameterName]: ["first", "second"] },
+      new Date(now - gracePeriod - 1000),
+    );
+
+    expect(await getWebhookSecrets(globalParameterName, gracePeriod)).toEqual([
+      { label: "current", version: 2, value: "second" },
+    ]);
+  });
+
+  test("accepts only the current secret when the previous version was deleted", async () => {
+    mockParameters({ [globalParameterName]: ["", "second"] });
+
+    expect(await getWebhookSecrets(globalParameterName, gracePeriod)).toEqual([
+      { label: "current", version: 2, value: "second" },
+    ]);
+  });
+});
@@ -0,0 +1,139 @@
+import { releaseDelivery } from "../src/lambdas/common/deduplication";
+import { getArchivedDelivery } from "../src/lambdas/common/webhook-archive";
+import { handler } from "../src/lambdas/webhook-worker";
+import { sendToTimestream } from "../src/lambdas/webhook-worker/timestream";
+
+jest.mock("../src/lambdas/common/deduplication");
+jest.mock("../src/lambdas/common/webhook-archive");
+jest.mock("../src/lambdas/webhook-worker/timestream", () => ({
+  ...jest.requireActual("../src/lambdas/webhook-worker/timestream"),
+  sendToTimestream: jest.fn(),
+}));
+
+const pushPayload = {
+  ref: "refs/heads/main",
+  before: "0000000",
+  after: "1111111",
+  commits: [],
+  pusher: { name: "octocat" },
+  repository: {
+    name: "hello-world",
+    full_name: "octo-org/hello-world",
+    owner: { login: "octo-org" },
+  },
+  sender: { login: "octocat", id: 1, type: "User" },
+};
+
+function toRecord(deliveryId: string, receiveCount = 1) {
+  return {
+    messageId: `message-${deliveryId}`,
+    body: JSON.stringify({
+      deliveryId,
+      eventType: "push",
+      receivedAt: "2025-05-01T00:00:00.000Z",
+      archiveKey: `webhooks/push/${deliveryId}.json`,
+    }),
+    attributes: { ApproximateReceiveCount: String(receiveCount) },
+  };
+}
+
+beforeEach(() => {
+  process.env.DELIVERY_TABLE_NAME = "deliveries";
+  process.env.WEBHOOK_QUEUE_MAX_RECEIVE_COUNT = "5";
+  jest.mocked(getArchivedDelivery).mockImplementation(async (_, key) => ({
+    deliveryId: key.replace(/^.*\/|\.json$/g, ""),
+    eventType: "push",
+    receivedAt: "2025-05-01T00:00:00.000Z",
+    payload: pushPayload,
+  }));
+  jest.spyOn(console, "log").mockImplementation(() => {});
+  jest.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe("webhook worker", () => {
+  test("reports only the failed messages of a batch", async () => {
+    jest
+      .mocked(sendToTimestream)
+      .mockResolvedValueOnce([])
+      .mockRejectedValueOnce(new Error("throttled"))
+      .mockResolvedValueOnce([]);
+
+    const result = await handler({
+      Records: [
+        toRecord("delivery-1"),
+        toRecord("delivery-2"),
+        toRecord("delivery-3"),
+      ],
+    });
+
+    expect(result.batchItemFailures).toEqual([
+      { itemIdentifier: "message-delivery-2" },
+    ]);
+    expect(sendToTimestream).toHaveBeenCalledTimes(3);
+  });
+
+  test("reports messages whose archived delivery cannot be read", async () => {
+    jest
+      .mocked(getArchivedDelivery)
+      .mockRejectedValueOnce(new Error("NoSuchKey"));
+
+    const result = await handler({
+      Records: [toRecord("delivery-1"), toRecord("delivery-2")],
+    });
+
+    expect(result.batchItemFailures).toEqual([
+      { itemIdentifier: "message-delivery-1" },
+    ]);
+    expect(sendToTimestream).toHaveBeenCalledTimes(1);
+  });
+
+  test("reports malformed messages without releasing a delivery", async () => {
+    const result = await handler({
+      Records: [
+        {
+          messageId: "message-malformed",
+          body: "not json",
+          attributes: { ApproximateReceiveCount: "5" },
+        },
+      ],
+    });
+
+    expect(result.batchItemFailures).toEqual([
+      { itemIdentifier: "message-malformed" },
+    ]);
+    expect(releaseDelivery).not.toHaveBeenCalled();
+  });
+
+  test("keeps the claim of a failed delivery that will be retried", async () => {
+    jest.mocked(sendToTimestream).mockRejectedValueOnce(new Error("throttled"));
+
+    const result = await handler({ Records: [toRecord("delivery-1", 4)] });
+
+    expect(result.batchItemFailures).toEqual([
+      { itemIdentifier: "message-delivery-1" },
+    ]);
+    expect(releaseDelivery).not.toHaveBeenCalled();
+  });
+
+  test("releases the claim when the last attempt fails", async () => {
+    jest.mocked(sendToTimestream).mockRejectedValueOnce(new Error("throttled"));
+
+    const result = await handler({ Records: [toRecord("delivery-1", 5)] });
+
+    expect(result.batchItemFailures).toEqual([
+      { itemIdentifier: "message-delivery-1" },
+    ]);
+    expect(releaseDelivery).toHaveBeenCalledWith("deliveries", "delivery-1");
+  });
+
+  test("keeps the claim of a delivery processed on the last attempt", async () => {
+    const result = await handler({ Records: [toRecord("delivery-1", 5)] });
+
+    expect(result.batchItemFailures).toEqual([]);
+    expect(releaseDelivery).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,69 @@
+import { summarizeWorkflowJobs } from "../src/lambdas/sns-handler/workflow-jobs";
+
+describe("summarizeWorkflowJobs", () => {
+  test("summarizes the timings of jobs and steps that ran", () => {
+    const jobs = [
+      {
+        id: 1,
+        name: "build",
+        conclusion: "success",
+        runner_name: "GitHub Actions 2",
+        runner_group_name: "GitHub Actions",
+        labels: ["ubuntu-latest"],
+        created_at: "2025-05-01T00:00:00Z",
+        started_at: "2025-05-01T00:00:30Z",
+        completed_at: "2025-05-01T00:05:30Z",
+        steps: [
+          {
+            number: 1,
+            name: "Checkout",
+            conclusion: "success",
+            started_at: "2025-05-01T00:00:30Z",
+            completed_at: "2025-05-01T00:00:40Z",
+          },
+          {
+            number: 2,
+            name: "Deploy",
+            conclusion: "skipped",
+            started_at: null,
+            completed_at: null,
+          },
+        ],
+      },
+      {
+        id: 2,
+        name: "release",
+        conclusion: "skipped",
+        runner_name: null,
+        labels: [],
+        created_at: "2025-05-01T00:00:00Z",
+        started_at: null,
+        completed_at: null,
+        steps: [],
+      },
+    ];
+
+    expect(summarizeWorkflowJobs(jobs)).toEqual([
+      {
+        id: 1,
+        name: "build",
+        conclusion: "success",
+        runnerName: "GitHub Actions 2",
+        runnerGroupName: "GitHub Actions",
+        labels: ["ubuntu-latest"],
+        completedAt: Date.parse("2025-05-01T00:05:30Z"),
+        queuedSeconds: 30,
+        durationSeconds: 300,
+        steps: [
+          {
+            number: 1,
+            name: "Checkout",
+            conclusion: "success",
+            completedAt: Date.parse("2025-05-01T00:00:40Z"),
+            durationSeconds: 10,
+          },
+        ],
+      },
+    ]);
+  });
+});